@@ -4,18 +4,24 @@ import { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 
 interface AuthorizationRequest {
+  /** The pending auth request stored by /oauth/authorize */
+  requestId: string;
   clientId: string;
   clientName: string;
   clientUrl: string;
   redirectUri: string;
   scopes: string[];
-  state: string;
+  /** APIs (RFC 8707 resource indicators) the tokens will be usable at */
+  resources?: string[];
+  /** Set when approving a device flow code (RFC 8628) instead of a redirect-based request */
+  userCode?: string;
 }
 
-interface AuthConfig {
-  authorizationTimeoutSeconds: number;
-  features: Record<string, boolean>;
-  providers: Record<string, boolean>;
+/** Scope registry entry, as returned by /api/auth/scopes */
+interface ScopeDetails {
+  name: string;
+  description: string;
+  sensitivity: 'low' | 'medium' | 'high';
 }
 
 function AuthorizeContent() {
@@ -28,53 +34,85 @@ function AuthorizeContent() {
   const [timeRemaining, setTimeRemaining] = useState<number>(600); // Default, will be updated from API
   const [hasTimedOut, setHasTimedOut] = useState(false);
   const [authorizationTimeoutSeconds, setAuthorizationTimeoutSeconds] = useState<number>(600);
+  const [deviceResult, setDeviceResult] = useState<'approved' | 'denied' | null>(null);
+  const [scopeDetails, setScopeDetails] = useState<Record<string, ScopeDetails>>({});
 
   useEffect(() => {
+    const loadDeviceRequest = async (userCode: string) => {
+      try {
+        const response = await fetch(`/api/auth/device?user_code=${encodeURIComponent(userCode)}`);
+        if (response.status === 401) {
+          router.push(`/login?next=${encodeURIComponent(`/device?user_code=${userCode}`)}`);
+          return;
+        }
+
+        const data: any = await response.json();
+        if (!response.ok) {
+          setError(data.error_description || 'Code not found or expired');
+          return;
+        }
+
+        setAuthorizationTimeoutSeconds(data.expiresIn);
+        setTimeRemaining(data.expiresIn);
+
+        const domain = data.homepageUrl ? new URL(data.homepageUrl).hostname : null;
+        setAuthRequest({
+          requestId: '',
+          clientId: data.clientId,
+          clientName: data.clientName,
+          clientUrl: data.homepageUrl || '',
+          redirectUri: '',
+          scopes: data.scopes,
+          userCode: data.userCode,
+        });
+        if (domain) setClientFavicon(`https://${domain}/favicon.ico`);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load authorization request');
+      }
+    };
+
     const loadAuthorizationRequest = async () => {
-      const state = searchParams.get('state');
-      const clientId = searchParams.get('client_id');
-      const redirectUri = searchParams.get('redirect_uri');
-      const scopes = searchParams.get('scope')?.split(' ') || [];
+      const userCode = searchParams.get('user_code');
+      if (userCode) {
+        await loadDeviceRequest(userCode);
+        return;
+      }
 
-      if (!state || !clientId || !redirectUri) {
+      const requestId = searchParams.get('request_id');
+      if (!requestId) {
         setError('Invalid authorization request');
         return;
       }
 
       try {
-        // Fetch authorization configuration (includes timeout settings)
-        const configResponse = await fetch('/api/auth/config');
-        if (!configResponse.ok) {
-          throw new Error('Failed to load configuration');
+        // Scopes come from the stored request, never from the URL, so the screen shows what is approved
+        const response = await fetch(`/api/auth/authorize?request_id=${encodeURIComponent(requestId)}`);
+        if (response.status === 401) {
+          router.push(`/login?next=${encodeURIComponent(`/authorize?request_id=${requestId}`)}`);
+          return;
         }
-        const config: AuthConfig = await configResponse.json();
-        setAuthorizationTimeoutSeconds(config.authorizationTimeoutSeconds);
-        setTimeRemaining(config.authorizationTimeoutSeconds);
-
-        // Fetch client details from registered OAuth clients
-        const clientResponse = await fetch(
-          `/api/auth/oauth-clients/${clientId}?validate_redirect_uri=${encodeURIComponent(redirectUri)}`
-        );
-
-        if (!clientResponse.ok) {
-          const errorData: any = await clientResponse.json();
-          setError(errorData.error || 'Application not found or invalid redirect URI');
+
+        const data: any = await response.json();
+        if (!response.ok) {
+          setError(data.error_description || 'Authorization request not found or expired');
           return;
         }
 
-        const clientData: any = await clientResponse.json();
+        setAuthorizationTimeoutSeconds(data.expiresIn);
+        setTimeRemaining(data.expiresIn);
 
         // Extract domain from redirect URI for favicon
-        const redirectUrl = new URL(redirectUri);
+        const redirectUrl = new URL(data.redirectUri);
         const domain = redirectUrl.hostname;
 
         setAuthRequest({
-          clientId,
-          clientName: clientData.name || domain,
-          clientUrl: `https://${domain}`,
-          redirectUri,
-          scopes: scopes.length > 0 ? scopes : clientData.scopes || [],
-          state,
+          requestId: data.requestId,
+          clientId: data.clientId,
+          clientName: data.clientName || domain,
+          clientUrl: data.homepageUrl || `https://${domain}`,
+          redirectUri: data.redirectUri,
+          scopes: data.scopes,
+          resources: data.resources,
         });
 
         // Load client favicon
@@ -85,11 +123,27 @@ function AuthorizeContent() {
     };
 
     loadAuthorizationRequest();
-  }, [searchParams]);
+  }, [searchParams, router]);
 
-  // Timer countdown effect - uses timeout from config
+  // Describe the requested scopes from the scope registry
   useEffect(() => {
-    if (!authRequest || hasTimedOut) return;
+    if (!authRequest || authRequest.scopes.length === 0) return;
+
+    fetch(`/api/auth/scopes?scope=${encodeURIComponent(authRequest.scopes.join(' '))}`)
+      .then((res) => (res.ok ? res.json() : { scopes: [] }))
+      .then((data: any) => {
+        const details: Record<string, ScopeDetails> = {};
+        for (const scope of data.scopes || []) details[scope.name] = scope;
+        setScopeDetails(details);
+      })
+      .catch(() => {
+        // Fall back to showing scope names
+      });
+  }, [authRequest]);
+
+  // Timer countdown effect - counts down the request's remaining lifetime
+  useEffect(() => {
+    if (!authRequest || hasTimedOut || deviceResult) return;
 
     const timer = setInterval(() => {
       setTimeRemaining((prev) => {
@@ -104,25 +158,69 @@ function AuthorizeContent() {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [authRequest, hasTimedOut]);
+  }, [authRequest, hasTimedOut, deviceResult]);
 
-  const handleAuthorize = async () => {
-    if (!authRequest || hasTimedOut) return;
+  const submitDeviceDecision = async (approved: boolean) => {
+    if (!authRequest?.userCode) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/device', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userCode: authRequest.userCode, approved }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Authorization failed');
+      }
+
+      setDeviceResult(approved ? 'approved' : 'denied');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Authorization failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Hand the code (or error) to the client the way it asked: by navigating to
+  // the redirect URL, or for response_mode=form_post by POSTing a form to it
+  const completeAuthorization = (data: any) => {
+    if (data.response_mode === 'form_post') {
+      const form = document.createElement('form');
+      form.method = 'POST';
+      form.action = data.redirect_uri;
+      for (const [name, value] of Object.entries(data.parameters || {})) {
+        const input = document.createElement('input');
+        input.type = 'hidden';
+        input.name = name;
+        input.value = String(value);
+        form.appendChild(input);
+      }
+      document.body.appendChild(form);
+      form.submit();
+      return;
+    }
+    window.location.href = data.redirect_uri;
+  };
+
+  const submitDecision = async (approved: boolean) => {
+    if (!authRequest) return;
 
     setIsLoading(true);
     try {
-      // Call the authorize endpoint with user consent
+      // Call the authorize endpoint with the user's decision
       const response = await fetch('/api/auth/authorize', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          state: authRequest.state,
+          requestId: authRequest.requestId,
           clientId: authRequest.clientId,
-          redirectUri: authRequest.redirectUri,
-          scopes: authRequest.scopes,
-          approved: true,
+          approved,
         }),
       });
 
@@ -131,21 +229,27 @@ function AuthorizeContent() {
       }
 
       const data: any = await response.json();
-      // Redirect to client with authorization code
-      window.location.href = data.redirect_uri;
+      // Redirect to client with the authorization code or access_denied
+      completeAuthorization(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Authorization failed');
       setIsLoading(false);
     }
   };
 
+  const handleAuthorize = async () => {
+    if (!authRequest || hasTimedOut) return;
+    if (authRequest.userCode) return submitDeviceDecision(true);
+    await submitDecision(true);
+  };
+
   const handleDeny = () => {
     if (!authRequest || hasTimedOut) return;
-    // Redirect back with error
-    const errorRedirect = new URL(authRequest.redirectUri);
-    errorRedirect.searchParams.append('error', 'access_denied');
-    errorRedirect.searchParams.append('state', authRequest.state);
-    window.location.href = errorRedirect.toString();
+    if (authRequest.userCode) {
+      submitDeviceDecision(false);
+      return;
+    }
+    submitDecision(false);
   };
 
   const formatTime = (seconds: number): string => {
@@ -172,6 +276,23 @@ function AuthorizeContent() {
     );
   }
 
+  if (deviceResult) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-2" style={{ background: 'linear-gradient(135deg, #0c0f0a 0%, #0f1410 50%, #0c0f0a 100%)' }}>
+        <div className="rounded-lg shadow-lg p-8 max-w-md w-full text-center" style={{ background: 'linear-gradient(135deg, rgba(255,255,255,0.05) 0%, rgba(255,255,255,0.02) 100%)', border: '1px solid rgba(255, 255, 255, 0.1)' }}>
+          <h1 className="text-2xl font-bold mb-4" style={{ color: '#a3e635' }}>
+            {deviceResult === 'approved' ? 'Device Connected' : 'Access Denied'}
+          </h1>
+          <p style={{ color: 'rgba(255, 255, 255, 0.7)' }}>
+            {deviceResult === 'approved'
+              ? `${authRequest?.clientName} is now signed in. You can return to your device.`
+              : `${authRequest?.clientName} was not given access. You can close this window.`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (!authRequest) {
     return (
       <div className="flex items-center justify-center min-h-screen p-2" style={{ background: 'linear-gradient(135deg, #0c0f0a 0%, #0f1410 50%, #0c0f0a 100%)' }}>
@@ -263,10 +384,15 @@ function AuthorizeContent() {
                         />
                       </svg>
                       <span className="text-sm" style={{ color: 'rgba(255, 255, 255, 0.7)' }}>
-                        {scope === 'profile' && 'Your profile information'}
-                        {scope === 'email' && 'Your email address'}
-                        {scope === 'openid' && 'OpenID authentication'}
-                        {!['profile', 'email', 'openid'].includes(scope) && scope}
+                        {scopeDetails[scope]?.description || scope}
+                        {scopeDetails[scope]?.sensitivity === 'high' && (
+                          <span
+                            className="ml-2 text-xs font-semibold px-1.5 py-0.5 rounded"
+                            style={{ color: '#f97316', background: 'rgba(249, 115, 22, 0.1)' }}
+                          >
+                            Sensitive
+                          </span>
+                        )}
                       </span>
                     </li>
                   ))
@@ -288,6 +414,20 @@ function AuthorizeContent() {
                   </li>
                 )}
               </ul>
+              {authRequest.resources && authRequest.resources.length > 0 && (
+                <>
+                  <h2 className="text-sm font-semibold mt-4 mb-2" style={{ color: '#f5f5f4' }}>
+                    Access will be usable at:
+                  </h2>
+                  <ul className="space-y-1">
+                    {authRequest.resources.map((resource) => (
+                      <li key={resource} className="text-xs font-mono break-all" style={{ color: 'rgba(255, 255, 255, 0.7)' }}>
+                        {resource}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
             </div>
 
             {/* Information Text */}
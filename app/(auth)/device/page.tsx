@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+function DeviceContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [userCode, setUserCode] = useState(searchParams.get('user_code') || '');
+  const [isLoading, setIsLoading] = useState(false);
+  const [checkingAuth, setCheckingAuth] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The code is bound to whoever approves it, so the user must sign in first
+  useEffect(() => {
+    const checkSession = async () => {
+      try {
+        const res = await fetch('/api/auth/me', { credentials: 'include' });
+        if (!res.ok) {
+          const initialCode = searchParams.get('user_code');
+          const next = `/device${initialCode ? `?user_code=${encodeURIComponent(initialCode)}` : ''}`;
+          router.push(`/login?next=${encodeURIComponent(next)}`);
+          return;
+        }
+      } catch {
+        // Fall through and let the lookup report the error
+      }
+      setCheckingAuth(false);
+    };
+    checkSession();
+  }, [router, searchParams]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userCode.trim()) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/auth/device?user_code=${encodeURIComponent(userCode)}`);
+      const data: any = await response.json();
+      if (!response.ok) {
+        setError(data.error_description || 'Code not found or expired');
+        return;
+      }
+
+      // Reuse the standard consent screen in device mode
+      router.push(`/authorize?user_code=${encodeURIComponent(data.userCode)}`);
+    } catch {
+      setError('Network error, please try again');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (checkingAuth) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-2" style={{ background: 'linear-gradient(135deg, #0c0f0a 0%, #0f1410 50%, #0c0f0a 100%)' }}>
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 mx-auto mb-4" style={{ borderBottom: '2px solid #a3e635' }}></div>
+          <p style={{ color: '#a3e635' }}>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-2" style={{ background: 'linear-gradient(135deg, #0c0f0a 0%, #0f1410 50%, #0c0f0a 100%)' }}>
+      <div className="w-full max-w-md">
+        <div className="rounded-2xl shadow-2xl overflow-hidden backdrop-blur-lg" style={{ background: 'linear-gradient(135deg, rgba(255,255,255,0.05) 0%, rgba(255,255,255,0.02) 100%)', border: '1px solid rgba(255, 255, 255, 0.1)' }}>
+          <div className="px-6 py-8 text-center" style={{ background: 'linear-gradient(135deg, rgba(163, 230, 53, 0.1) 0%, rgba(163, 230, 53, 0.05) 100%)', borderBottom: '1px solid rgba(163, 230, 53, 0.2)' }}>
+            <h1 className="text-2xl font-bold mb-2" style={{ color: '#a3e635' }}>Connect a Device</h1>
+            <p style={{ color: 'rgba(163, 230, 53, 0.7)' }}>Enter the code shown on your device</p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-8">
+            <input
+              type="text"
+              value={userCode}
+              onChange={(e) => setUserCode(e.target.value.toUpperCase())}
+              placeholder="XXXX-XXXX"
+              autoFocus
+              autoComplete="off"
+              spellCheck={false}
+              maxLength={9}
+              className="w-full text-center text-2xl font-mono tracking-widest py-3 px-4 rounded-lg mb-4 outline-none"
+              style={{ background: 'rgba(255, 255, 255, 0.05)', color: '#f5f5f4', border: '1px solid rgba(163, 230, 53, 0.3)' }}
+            />
+
+            {error && (
+              <p className="text-sm text-center mb-4" style={{ color: '#ff6b6b' }}>{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || !userCode.trim()}
+              className="w-full font-semibold py-3 px-4 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ background: 'rgba(163, 230, 53, 0.15)', color: '#a3e635', border: '1px solid rgba(163, 230, 53, 0.3)' }}
+            >
+              {isLoading ? 'Checking...' : 'Continue'}
+            </button>
+
+            <p className="text-xs text-center mt-4" style={{ color: 'rgba(255, 255, 255, 0.5)' }}>
+              Only enter codes from devices you are setting up yourself.
+            </p>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function DevicePage() {
+  return (
+    <Suspense>
+      <DeviceContent />
+    </Suspense>
+  );
+}
@@ -38,7 +38,10 @@ const textFieldSx = {
 const LoginContent = () => {
   const searchParams = useSearchParams();
   const next = searchParams.get('next');
-  const [email, setEmail] = useState('');
+  // OIDC login_hint and forced re-authentication from /oauth/authorize
+  const loginHint = searchParams.get('login_hint');
+  const reauth = searchParams.get('reauth') === '1';
+  const [email, setEmail] = useState(loginHint || '');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
@@ -46,8 +49,13 @@ const LoginContent = () => {
   const [checkingAuth, setCheckingAuth] = useState(true);
   const [error, setError] = useState('');
 
-  // Auto-redirect if already logged in (valid cookie session)
+  // Auto-redirect if already logged in (valid cookie session), unless the
+  // authorization request asked the user to sign in again
   useEffect(() => {
+    if (reauth) {
+      setCheckingAuth(false);
+      return;
+    }
     const checkExistingSession = async () => {
       try {
         const res = await fetch('/api/auth/me', { credentials: 'include' });
@@ -70,7 +78,7 @@ const LoginContent = () => {
       setCheckingAuth(false);
     };
     checkExistingSession();
-  }, [next]);
+  }, [next, reauth]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -129,7 +137,7 @@ const LoginContent = () => {
         <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'center' }}>
           <Box sx={{ mb: 2, textAlign: 'center' }}>
             <Typography variant="h4" sx={{ fontWeight: 700, color: '#f5f5f4', mb: 0.5 }}>Welcome Back</Typography>
-            <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontSize: '0.95rem' }}>Sign in to your SSO account</Typography>
+            <Typography sx={{ color: 'rgba(255, 255, 255, 0.5)', fontSize: '0.95rem' }}>{reauth ? 'Please sign in again to continue' : 'Sign in to your SSO account'}</Typography>
           </Box>
 
           <form onSubmit={handleSubmit}>
@@ -0,0 +1,33 @@
+export const runtime = 'edge';
+
+import { NextResponse } from 'next/server';
+import { getPublicJWKs } from '@/lib/signing-keys';
+
+/**
+ * GET /.well-known/jwks.json
+ *
+ * JSON Web Key Set of the Ed25519 keys that sign access, refresh and ID
+ * tokens: the current key, the next one (published ahead of rotation) and
+ * retired keys whose tokens may still be live. Tokens name theirs by `kid`.
+ */
+export async function GET() {
+  try {
+    const keys = await getPublicJWKs();
+
+    return NextResponse.json(
+      { keys },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=3600',
+          'Access-Control-Allow-Origin': '*',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[JWKS] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Signing key is not configured' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+export const runtime = 'edge';
+
+import { NextResponse } from 'next/server';
+import { getDiscoveryDocument, getIssuer } from '@/lib/oidc';
+
+/**
+ * GET /.well-known/openid-configuration
+ *
+ * OpenID Connect Discovery 1.0 provider metadata. Relying parties fetch this
+ * once to learn the authorize/token/logout endpoints, the JWKS location and
+ * the supported scopes instead of hard-coding them.
+ */
+export async function GET() {
+  try {
+    const issuer = getIssuer();
+
+    return NextResponse.json(getDiscoveryDocument(issuer), {
+      headers: {
+        'Cache-Control': 'public, max-age=3600',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  } catch (error) {
+    console.error('[OIDC Discovery] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to build discovery document' },
+      { status: 500 }
+    );
+  }
+}
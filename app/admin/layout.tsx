@@ -59,7 +59,8 @@ const notificationIcon = (type: string) => {
     case 'new_user': return <PersonAdd sx={{ fontSize: '1rem', color: '#3b82f6' }} />;
     case 'new_oauth_app': return <AppRegistration sx={{ fontSize: '1rem', color: '#f59e0b' }} />;
     case 'new_api_key': return <VpnKey sx={{ fontSize: '1rem', color: '#8b5cf6' }} />;
-    case 'suspicious_login': return <Security sx={{ fontSize: '1rem', color: '#ef4444' }} />;
+    case 'suspicious_login':
+    case 'authorization_code_replay': return <Security sx={{ fontSize: '1rem', color: '#ef4444' }} />;
     default: return <Notifications sx={{ fontSize: '1rem', color: '#9ca3af' }} />;
   }
 };
@@ -13,8 +13,9 @@ import {
   FormControlLabel,
   Divider,
   Alert,
+  Chip,
 } from '@mui/material';
-import { Save, CheckCircle, Notifications } from '@mui/icons-material';
+import { Save, CheckCircle, Notifications, Key, Autorenew, Warning } from '@mui/icons-material';
 
 interface Settings {
   rateLimitMaxRequests: number;
@@ -38,6 +39,21 @@ interface NotificationSettings {
   digest_frequency: 'daily' | 'weekly';
 }
 
+interface SigningKey {
+  kid: string;
+  status: 'next' | 'current' | 'retired';
+  created_at: string | null;
+  activated_at: string | null;
+  retired_at: string | null;
+  expires_at: string | null;
+}
+
+const keyStatusColors: Record<SigningKey['status'], string> = {
+  next: '#3b82f6',
+  current: '#22c55e',
+  retired: '#6b7280',
+};
+
 const fieldSx = {
   '& .MuiOutlinedInput-root': {
     color: '#e5e7eb',
@@ -81,6 +97,22 @@ export default function SettingsPage() {
   const [loading, setLoading] = useState(false);
   const [notifLoading, setNotifLoading] = useState(false);
   const [notifSaved, setNotifSaved] = useState(false);
+  const [signingKeys, setSigningKeys] = useState<SigningKey[]>([]);
+  const [rotating, setRotating] = useState(false);
+  const [rotationResult, setRotationResult] = useState<{ severity: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    const fetchSigningKeys = async () => {
+      try {
+        const res = await fetch('/api/admin/signing-keys', { credentials: 'include' });
+        if (res.ok) {
+          const data: any = await res.json();
+          setSigningKeys(data.keys || []);
+        }
+      } catch { /* silent */ }
+    };
+    fetchSigningKeys();
+  }, []);
 
   useEffect(() => {
     const fetchNotifSettings = async () => {
@@ -145,6 +177,32 @@ export default function SettingsPage() {
     }
   };
 
+  const handleRotate = async (action: 'rotate' | 'compromise') => {
+    const confirmation = action === 'compromise'
+      ? 'Replace all signing keys immediately? Every issued token stops working and all users and apps must sign in again.'
+      : 'Rotate the signing key? The next key starts signing new tokens; existing tokens stay valid.';
+    if (!window.confirm(confirmation)) return;
+
+    setRotating(true);
+    setRotationResult(null);
+    try {
+      const res = await fetch('/api/admin/signing-keys', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data: any = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Rotation failed');
+      setSigningKeys(data.keys || []);
+      setRotationResult({ severity: 'success', message: data.message });
+    } catch (error: any) {
+      setRotationResult({ severity: 'error', message: error.message });
+    } finally {
+      setRotating(false);
+    }
+  };
+
   return (
     <Box>
       {/* Header */}
@@ -545,6 +603,83 @@ export default function SettingsPage() {
           {notifLoading ? 'Saving...' : 'Save Notification Settings'}
         </Button>
       </Box>
+
+      {/* Signing Keys */}
+      <Card sx={{ bgcolor: '#1a1a1a', border: '1px solid #333', borderRadius: '12px', mt: 3 }}>
+        <CardContent>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mb: 2 }}>
+            <Key sx={{ color: '#22c55e' }} />
+            <Typography variant="h6" sx={{ fontWeight: 600, color: '#fff' }}>
+              Signing Keys
+            </Typography>
+          </Box>
+          <Typography variant="body2" sx={{ color: '#9ca3af', mb: 3 }}>
+            The current key signs new tokens. The next key is already published so apps can cache it before it takes over,
+            and retired keys keep verifying until their tokens expire.
+          </Typography>
+
+          {rotationResult && (
+            <Alert severity={rotationResult.severity} sx={{ mb: 2 }} onClose={() => setRotationResult(null)}>
+              {rotationResult.message}
+            </Alert>
+          )}
+
+          {signingKeys.length === 0 ? (
+            <Typography variant="body2" sx={{ color: '#6b7280', mb: 3 }}>
+              No rotations yet — tokens are signed with the JWT_PRIVATE_KEY environment key.
+            </Typography>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5, mb: 3 }}>
+              {signingKeys.map((key) => (
+                <Box key={key.kid} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                  <Chip
+                    label={key.status}
+                    size="small"
+                    sx={{ bgcolor: `${keyStatusColors[key.status]}22`, color: keyStatusColors[key.status], minWidth: 72 }}
+                  />
+                  <Typography sx={{ color: '#e5e7eb', fontFamily: 'monospace', fontSize: '0.8rem', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                    {key.kid}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: '#6b7280', flexShrink: 0 }}>
+                    {key.status === 'retired'
+                      ? `Verifies until ${key.expires_at ? new Date(key.expires_at).toLocaleString() : '—'}`
+                      : key.status === 'current'
+                        ? `Active since ${key.activated_at ? new Date(key.activated_at).toLocaleString() : '—'}`
+                        : `Created ${key.created_at ? new Date(key.created_at).toLocaleString() : '—'}`}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Button
+              variant="contained"
+              startIcon={<Autorenew />}
+              onClick={() => handleRotate('rotate')}
+              disabled={rotating}
+              sx={{
+                bgcolor: '#22c55e',
+                color: '#000',
+                fontWeight: 600,
+                '&:hover': { bgcolor: '#16a34a' },
+                '&:disabled': { opacity: 0.6 },
+              }}
+            >
+              Rotate Key
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Warning />}
+              onClick={() => handleRotate('compromise')}
+              disabled={rotating}
+              sx={{ borderColor: '#ef4444', color: '#ef4444', '&:hover': { borderColor: '#dc2626', bgcolor: 'rgba(239,68,68,0.1)' } }}
+            >
+              Compromise Rotation
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
     </Box>
   );
 }
@@ -7,7 +7,7 @@ export const runtime = 'edge';
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '../../../../src/lib/jwt';
+import { verifyJWT, getSessionAudience } from '../../../../src/lib/jwt';
 import {
   generateApiKey,
   getUserApiKeys,
@@ -25,7 +25,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const decoded = await verifyJWT(token);
+    const decoded = await verifyJWT(token, { audience: getSessionAudience() });
     if (!decoded || !decoded.sub) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
@@ -53,7 +53,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const decoded = await verifyJWT(token);
+    const decoded = await verifyJWT(token, { audience: getSessionAudience() });
     if (!decoded || !decoded.sub) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
@@ -127,7 +127,7 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const decoded = await verifyJWT(token);
+    const decoded = await verifyJWT(token, { audience: getSessionAudience() });
     if (!decoded || !decoded.sub) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
@@ -188,7 +188,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const decoded = await verifyJWT(token);
+    const decoded = await verifyJWT(token, { audience: getSessionAudience() });
     if (!decoded || !decoded.sub) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
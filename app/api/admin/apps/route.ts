@@ -2,9 +2,11 @@ export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdminSession } from '../../../../src/lib/admin-middleware';
-import { logAdminAction } from '../../../../src/lib/db';
+import { logAdminAction, updateOAuthClient } from '../../../../src/lib/db';
 import { getDatabase } from '../../../../src/lib/d1-client';
 import { generateUUID } from '../../../../src/lib/webcrypto';
+import { findInvalidResource } from '../../../../src/lib/oidc';
+import { findReservedResource } from '../../../../src/lib/jwt';
 
 export async function GET(request: NextRequest) {
   const session = await verifyAdminSession(request);
@@ -28,7 +30,7 @@ export async function GET(request: NextRequest) {
     const [appsResult, countResult] = await Promise.all([
       search
         ? db.prepare(
-            `SELECT oc.client_id as id, oc.name, oc.is_active, oc.created_at, oc.last_used, oc.request_count,
+            `SELECT oc.client_id as id, oc.name, oc.is_active, oc.created_at, oc.last_used, oc.request_count, oc.token_exchange_audiences, oc.token_exchange_resources,
                u.id as owner_id, u.email as owner_email
              FROM oauth_clients oc
              LEFT JOIN users u ON oc.owner_id = u.id
@@ -36,7 +38,7 @@ export async function GET(request: NextRequest) {
              ORDER BY oc.created_at DESC LIMIT ? OFFSET ?`
           ).bind(`%${search}%`, `%${search}%`, limit, offset).all()
         : db.prepare(
-            `SELECT oc.client_id as id, oc.name, oc.is_active, oc.created_at, oc.last_used, oc.request_count,
+            `SELECT oc.client_id as id, oc.name, oc.is_active, oc.created_at, oc.last_used, oc.request_count, oc.token_exchange_audiences, oc.token_exchange_resources,
                u.id as owner_id, u.email as owner_email
              FROM oauth_clients oc
              LEFT JOIN users u ON oc.owner_id = u.id
@@ -58,6 +60,8 @@ export async function GET(request: NextRequest) {
       lastUsed: a.last_used,
       requestCount: a.request_count || 0,
       requests: a.request_count || 0,
+      tokenExchangeAudiences: a.token_exchange_audiences ? JSON.parse(a.token_exchange_audiences) : [],
+      tokenExchangeResources: a.token_exchange_resources ? JSON.parse(a.token_exchange_resources) : [],
     }));
 
     const total = (countResult as any)?.count || 0;
@@ -80,23 +84,59 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/** Token exchange audiences and resources follow the resource indicator rules */
+function findAudienceError(audiences: unknown): string | null {
+  if (!Array.isArray(audiences) || audiences.some((audience) => typeof audience !== 'string' || !audience)) {
+    return 'audiences must be an array of non-empty strings';
+  }
+  const invalidAudience = findInvalidResource(audiences as string[]);
+  if (invalidAudience) return `Audience must be an absolute URI without a fragment: ${invalidAudience}`;
+  const reservedAudience = findReservedResource(audiences as string[]);
+  if (reservedAudience) return `Audience is reserved for first-party tokens: ${reservedAudience}`;
+  return null;
+}
+
 /**
  * PATCH /api/admin/apps
- * Suspend or activate an OAuth application.
- * Body: { appId, action: 'suspend' | 'activate' }
+ * Suspend or activate an OAuth application, set the audiences it may obtain
+ * through token exchange (an empty list disables token exchange), or the
+ * resources it serves, whose users' tokens it may exchange.
+ * Body: { appId, action: 'suspend' | 'activate' | 'set_token_exchange_audiences' | 'set_token_exchange_resources', audiences? }
  */
 export async function PATCH(request: NextRequest) {
   const session = await verifyAdminSession(request);
   if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
   try {
-    const { appId, action } = (await request.json()) as { appId?: string; action?: string };
+    const { appId, action, audiences } = (await request.json()) as { appId?: string; action?: string; audiences?: unknown };
     if (!appId || !action) return NextResponse.json({ error: 'appId and action are required' }, { status: 400 });
 
     const db = await getDatabase();
     const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
+    if (action === 'set_token_exchange_audiences' || action === 'set_token_exchange_resources') {
+      const audienceError = findAudienceError(audiences);
+      if (audienceError) return NextResponse.json({ error: audienceError }, { status: 400 });
+      const uniqueAudiences = [...new Set(audiences as string[])];
+      const value = uniqueAudiences.length > 0 ? JSON.stringify(uniqueAudiences) : null;
+      const isResources = action === 'set_token_exchange_resources';
+      await updateOAuthClient(db, appId, isResources ? { tokenExchangeResources: value } : { tokenExchangeAudiences: value });
+
+      await logAdminAction(db, {
+        id: generateUUID(),
+        adminId: session.userId,
+        action,
+        resourceType: 'oauth_client',
+        resourceId: appId,
+        changes: { [isResources ? 'token_exchange_resources' : 'token_exchange_audiences']: uniqueAudiences },
+        ipAddress,
+        userAgent,
+      });
+
+      return NextResponse.json({ success: true, message: `Token exchange ${isResources ? 'resources' : 'audiences'} updated` });
+    }
+
     if (action === 'suspend') {
       await db.prepare('UPDATE oauth_clients SET is_active = 0, updated_at = CURRENT_TIMESTAMP WHERE client_id = ?').bind(appId).run();
     } else if (action === 'activate') {
@@ -120,8 +120,8 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'You must be logged in to accept an invitation' }, { status: 401 });
     }
 
-    const { verifyJWT } = await import('@/lib/jwt');
-    const payload = await verifyJWT(cookieToken);
+    const { verifyJWT, getSessionAudience } = await import('@/lib/jwt');
+    const payload = await verifyJWT(cookieToken, { audience: getSessionAudience() });
     if (!payload || payload.type !== 'access') {
       return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
     }
@@ -0,0 +1,86 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminSession } from '../../../../src/lib/admin-middleware';
+import { logAdminAction } from '../../../../src/lib/db';
+import { getDatabase } from '../../../../src/lib/d1-client';
+import { generateUUID } from '../../../../src/lib/webcrypto';
+import { listSigningKeyInfo, rotateSigningKeys } from '../../../../src/lib/signing-keys';
+
+/**
+ * GET /api/admin/signing-keys
+ * Token signing keys and their state (next, current, retired)
+ */
+export async function GET(request: NextRequest) {
+  const session = await verifyAdminSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const db = await getDatabase();
+    const keys = await listSigningKeyInfo(db);
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error('Signing keys list error:', error);
+    return NextResponse.json({ error: 'Failed to fetch signing keys' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/signing-keys
+ * Body: { action: 'rotate' | 'compromise', reason?: string }
+ *
+ * rotate:     the next key starts signing; the current key keeps verifying
+ *             until the tokens it signed expire. The first rotation only
+ *             publishes a next key, which the following one promotes
+ * compromise: fresh keys, old keys stop verifying at once, and every
+ *             outstanding refresh token is revoked
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifyAdminSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body: any = await request.json().catch(() => ({}));
+    const { action, reason } = body;
+
+    if (action !== 'rotate' && action !== 'compromise') {
+      return NextResponse.json(
+        { error: "action must be 'rotate' or 'compromise'" },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const compromised = action === 'compromise';
+    const result = await rotateSigningKeys(db, { compromised });
+
+    await logAdminAction(db, {
+      id: generateUUID(),
+      adminId: session.userId,
+      action: compromised ? 'compromise_rotate_signing_keys' : 'rotate_signing_keys',
+      resourceType: 'signing_key',
+      resourceId: result.currentKid,
+      changes: { ...result, ...(reason && { reason }) },
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: compromised
+        ? `Signing keys replaced; ${result.revokedRefreshTokens} refresh tokens revoked`
+        : result.promoted
+          ? 'Signing key rotated'
+          : 'Next signing key published; rotate again once relying parties have refreshed the JWKS',
+      ...result,
+      keys: await listSigningKeyInfo(db),
+    });
+  } catch (error) {
+    console.error('Signing key rotation error:', error);
+    return NextResponse.json({ error: 'Failed to rotate signing keys' }, { status: 500 });
+  }
+}
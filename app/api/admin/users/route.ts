@@ -2,10 +2,12 @@ export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdminSession } from '../../../../src/lib/admin-middleware';
-import { listAdminUsers, countUsers, setUserAdminStatus, setUserActiveStatus, logAdminAction, getUserById } from '../../../../src/lib/db';
+import { listAdminUsers, countUsers, setUserAdminStatus, setUserActiveStatus, logAdminAction, getUserById, revokeAllUserRefreshTokens } from '../../../../src/lib/db';
 import { getDatabase } from '../../../../src/lib/d1-client';
 import { generateUUID } from '../../../../src/lib/webcrypto';
 import { sendEmail, emailTemplates } from '../../../../src/lib/email';
+import { notifyBackchannelLogout } from '../../../../src/lib/backchannel-logout';
+import { getIssuer } from '../../../../src/lib/oidc';
 
 export async function GET(request: NextRequest) {
   const session = await verifyAdminSession(request);
@@ -125,6 +127,10 @@ export async function PATCH(request: NextRequest) {
           userAgent,
         });
 
+        // End the user's sessions with every client, then revoke their tokens
+        await notifyBackchannelLogout(db, getIssuer(), userId);
+        await revokeAllUserRefreshTokens(db, userId);
+
         // Send suspension email (fire-and-forget)
         try {
           const suspendedUser = await getUserById(db, userId) as any;
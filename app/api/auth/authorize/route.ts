@@ -2,197 +2,147 @@ export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generateRandomString, generateUUID } from '@/lib/webcrypto';
-import { verifyJWT } from '@/lib/jwt';
-import { getOAuthClientById, createAuthRequest, getAuthRequestByState } from '@/lib/db';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getPendingAuthRequest, getOAuthClientById, setAuthRequestCode, saveOAuthConsent } from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
+import { getAccountsSessionId, getSessionAuthTime } from '@/lib/accounts-session';
+import { authorizationResponseJson, getResponseMode } from '@/lib/authorization-response';
 
-// Built-in/trusted domains auto-whitelisted
-const BUILTIN_DOMAINS = ['elixpo.com', 'www.elixpo.com'];
+async function getSessionPayload(request: NextRequest) {
+  const cookieToken = request.cookies.get('access_token')?.value;
+  const headerToken = request.headers.get('authorization')?.replace('Bearer ', '');
+  const accessToken = cookieToken || headerToken;
+  if (!accessToken) return null;
 
+  const payload = await verifyJWT(accessToken, { audience: getSessionAudience() });
+  return payload && payload.type === 'access' && payload.sub_type !== 'client' ? payload : null;
+}
+
+/**
+ * GET /api/auth/authorize?request_id=<auth request id>
+ *
+ * Look up a pending auth request for the /authorize consent screen, which
+ * shows exactly the scopes the POST below would approve. Requires a signed-in user.
+ */
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const responseType = searchParams.get('response_type');
-    const clientId = searchParams.get('client_id');
-    const redirectUri = searchParams.get('redirect_uri');
-    const scope = searchParams.get('scope') || 'openid profile email';
-    const state = searchParams.get('state');
-    const nonce = searchParams.get('nonce');
-
-    if (!responseType || !clientId || !redirectUri || !state) {
-      return NextResponse.json(
-        { error: 'invalid_request', error_description: 'Missing required: response_type, client_id, redirect_uri, state' },
-        { status: 400 }
-      );
-    }
-
-    if (responseType !== 'code') {
+    const jwtPayload = await getSessionPayload(request);
+    if (!jwtPayload) {
       return NextResponse.json(
-        { error: 'unsupported_response_type', error_description: 'Only response_type=code is supported' },
-        { status: 400 }
+        { error: 'unauthorized', error_description: 'User must be authenticated' },
+        { status: 401 }
       );
     }
 
-    let redirectUrl: URL;
-    try {
-      redirectUrl = new URL(redirectUri);
-      if (redirectUrl.protocol !== 'https:' && redirectUrl.protocol !== 'http:') {
-        throw new Error('Must use HTTP or HTTPS');
-      }
-    } catch {
+    const db = await getDatabase();
+    const authRequest = await getPendingAuthRequest(db, request.nextUrl.searchParams.get('request_id') || '') as any;
+    if (!authRequest) {
       return NextResponse.json(
-        { error: 'invalid_request', error_description: 'Invalid redirect_uri: must be valid URL with HTTP or HTTPS' },
-        { status: 400 }
+        { error: 'invalid_request', error_description: 'Authorization request not found or expired' },
+        { status: 404 }
       );
     }
 
-    const isBuiltinClient = BUILTIN_DOMAINS.includes(redirectUrl.hostname);
-    const db = await getDatabase();
-
-    if (!isBuiltinClient) {
-      try {
-        const client = await getOAuthClientById(db, clientId);
-        if (!client) {
-          return NextResponse.json(
-            { error: 'invalid_client', error_description: 'Client not found or not active' },
-            { status: 401 }
-          );
-        }
-        const redirectUris = JSON.parse((client as any).redirect_uris || '[]');
-        if (!redirectUris.includes(redirectUri)) {
-          return NextResponse.json(
-            { error: 'invalid_request', error_description: 'redirect_uri not whitelisted for this client' },
-            { status: 400 }
-          );
-        }
-        if (!(client as any).is_active) {
-          return NextResponse.json(
-            { error: 'invalid_client', error_description: 'Client is not active' },
-            { status: 401 }
-          );
-        }
-      } catch (error) {
-        console.error('[SSO Authorize] Client validation error:', error);
-        return NextResponse.json(
-          { error: 'server_error', error_description: 'Failed to validate client' },
-          { status: 500 }
-        );
-      }
-    }
-
-    try {
-      await createAuthRequest(db, {
-        id: generateUUID(),
-        state,
-        nonce: nonce || '',
-        pkceVerifier: generateRandomString(128),
-        provider: 'sso',
-        clientId,
-        redirectUri,
-        scopes: scope,
-        expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-      });
-    } catch (error) {
-      console.error('[SSO Authorize] Failed to store auth request:', error);
+    const client = await getOAuthClientById(db, authRequest.client_id) as any;
+    if (!client || !client.is_active) {
       return NextResponse.json(
-        { error: 'server_error', error_description: 'Failed to process authorization request' },
-        { status: 500 }
+        { error: 'invalid_client', error_description: 'Application not found' },
+        { status: 404 }
       );
     }
 
-    const response = NextResponse.json({
-      message: 'Authorization request received',
-      clientId,
-      redirectUri,
-      scopes: scope.split(' '),
-      state,
-    });
-
-    response.cookies.set('oauth_sso_state', JSON.stringify({ clientId, redirectUri, scope, state, nonce }), {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 10 * 60,
-      path: '/',
+    return NextResponse.json({
+      requestId: authRequest.id,
+      clientId: client.client_id,
+      clientName: client.name,
+      homepageUrl: client.homepage_url,
+      redirectUri: authRequest.redirect_uri,
+      scopes: (authRequest.scopes || '').split(' ').filter(Boolean),
+      resources: JSON.parse(authRequest.resources || '[]'),
+      expiresIn: Math.max(0, Math.floor((new Date(authRequest.expires_at).getTime() - Date.now()) / 1000)),
     });
-
-    return response;
   } catch (error) {
-    console.error('[OAuth Authorize] Error:', error);
+    console.error('[OAuth Authorize] Lookup error:', error);
     return NextResponse.json(
-      { error: 'server_error', error_description: 'Failed to process authorization request' },
+      { error: 'server_error', error_description: 'Failed to look up authorization request' },
       { status: 500 }
     );
   }
 }
 
+/**
+ * POST /api/auth/authorize
+ *
+ * The consent screen's decision on a pending auth request. Requests are only
+ * created by /oauth/authorize, which validates them (including the client's
+ * PAR requirement) first.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body: any = await request.json();
-    const { clientId, redirectUri, state, approved } = body;
+    const { requestId, clientId, approved } = body;
 
-    if (!clientId || !redirectUri || !state || approved === undefined) {
+    if (!requestId || !clientId || approved === undefined) {
       return NextResponse.json(
         { error: 'invalid_request', error_description: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    // Verify user is authenticated via access_token cookie or Authorization header
-    const cookieToken = request.cookies.get('access_token')?.value;
-    const headerToken = request.headers.get('authorization')?.replace('Bearer ', '');
-    const accessToken = cookieToken || headerToken;
-
-    if (!accessToken) {
+    const jwtPayload = await getSessionPayload(request);
+    if (!jwtPayload) {
       return NextResponse.json(
         { error: 'unauthorized', error_description: 'User must be authenticated to authorize' },
         { status: 401 }
       );
     }
 
-    const jwtPayload = await verifyJWT(accessToken);
-    if (!jwtPayload || jwtPayload.type !== 'access') {
-      return NextResponse.json(
-        { error: 'unauthorized', error_description: 'Invalid or expired access token' },
-        { status: 401 }
-      );
-    }
-
-    let redirectUrl: URL;
-    try {
-      redirectUrl = new URL(redirectUri);
-      if (redirectUrl.protocol !== 'https:' && redirectUrl.protocol !== 'http:') {
-        throw new Error('Must use HTTP or HTTPS');
-      }
-    } catch {
+    const db = await getDatabase();
+    // The consent page URL can be edited; only the stored request decides where the code goes
+    const authRequest = await getPendingAuthRequest(db, requestId) as any;
+    if (!authRequest || authRequest.client_id !== clientId) {
       return NextResponse.json(
-        { error: 'invalid_request', error_description: 'Invalid redirect_uri' },
+        { error: 'invalid_request', error_description: 'Authorization request not found, expired or already decided' },
         { status: 400 }
       );
     }
+    const state: string = authRequest.state;
+    const responseMode = getResponseMode(authRequest.response_mode);
 
     if (!approved) {
-      redirectUrl.searchParams.append('error', 'access_denied');
-      redirectUrl.searchParams.append('error_description', 'User denied access');
-      redirectUrl.searchParams.append('state', state);
-      return NextResponse.json({ redirect_uri: redirectUrl.toString() });
-    }
-
-    const db = await getDatabase();
-    const authRequest = await getAuthRequestByState(db, state);
-    if (!authRequest) {
-      return NextResponse.json(
-        { error: 'invalid_request', error_description: 'Authorization request not found or expired' },
-        { status: 400 }
-      );
+      return NextResponse.json(authorizationResponseJson(
+        authRequest.redirect_uri,
+        { error: 'access_denied', error_description: 'User denied access', state },
+        responseMode
+      ));
     }
 
     const authorizationCode = `code_${generateRandomString(32)}`;
 
+    // OIDC auth_time: when the user signed in to this session
+    const authTime = await getSessionAuthTime(db, request, jwtPayload);
+
     try {
-      await db.prepare(
-        'UPDATE auth_requests SET code = ?, user_id = ? WHERE state = ?'
-      ).bind(authorizationCode, jwtPayload.sub, state).run();
+      const coded = await setAuthRequestCode(db, authRequest.id, {
+        code: authorizationCode,
+        userId: jwtPayload.sub,
+        authTime,
+        sessionId: await getAccountsSessionId(db, request),
+      });
+      if (coded.meta.changes !== 1) {
+        return NextResponse.json(
+          { error: 'invalid_request', error_description: 'Authorization request not found, expired or already decided' },
+          { status: 400 }
+        );
+      }
+      // Remember the approval so /oauth/authorize can skip the consent screen next time
+      await saveOAuthConsent(db, {
+        id: generateUUID(),
+        userId: jwtPayload.sub,
+        clientId: authRequest.client_id,
+        scopes: (authRequest.scopes || '').split(' ').filter(Boolean),
+        resources: JSON.parse(authRequest.resources || '[]'),
+      });
     } catch (dbError) {
       console.error('[SSO Authorize POST] Failed to update auth request:', dbError);
       return NextResponse.json(
@@ -201,11 +151,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    redirectUrl.searchParams.append('code', authorizationCode);
-    redirectUrl.searchParams.append('state', state);
-
     return NextResponse.json({
-      redirect_uri: redirectUrl.toString(),
+      ...authorizationResponseJson(authRequest.redirect_uri, { code: authorizationCode, state }, responseMode),
       code: authorizationCode,
     });
 
@@ -0,0 +1,40 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getDatabase } from '@/lib/d1-client';
+import { deleteOAuthConsent, revokeUserClientRefreshTokens } from '@/lib/db';
+
+/**
+ * DELETE /api/auth/connected-apps/[client_id]
+ *
+ * Revoke an app's access: forgets the consent grant and revokes every refresh
+ * token the app holds for this user, so the next sign-in asks for consent again.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_id: string }> }
+) {
+  const token = request.cookies.get('access_token')?.value;
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
+  if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+
+  const { client_id } = await params;
+
+  try {
+    const db = await getDatabase();
+    const result = await deleteOAuthConsent(db, payload.sub, client_id);
+    if (!result.meta.changes) {
+      return NextResponse.json({ error: 'App is not connected' }, { status: 404 });
+    }
+
+    await revokeUserClientRefreshTokens(db, payload.sub, client_id);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error('[connected-apps]', err);
+    return NextResponse.json({ error: 'Failed to revoke access' }, { status: 500 });
+  }
+}
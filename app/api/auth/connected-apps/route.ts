@@ -0,0 +1,32 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getDatabase } from '@/lib/d1-client';
+import { listUserOAuthConsents } from '@/lib/db';
+
+/**
+ * GET /api/auth/connected-apps
+ *
+ * Third-party apps the signed-in user has authorized, with the scopes they approved
+ */
+export async function GET(request: NextRequest) {
+  const token = request.cookies.get('access_token')?.value;
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
+  if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+
+  try {
+    const db = await getDatabase();
+    const result = await listUserOAuthConsents(db, payload.sub);
+    const apps = ((result.results || []) as any[]).map((row) => ({
+      ...row,
+      scopes: row.scopes.split(' ').filter(Boolean),
+    }));
+    return NextResponse.json({ apps });
+  } catch (err) {
+    console.error('[connected-apps]', err);
+    return NextResponse.json({ error: 'Failed to fetch connected apps' }, { status: 500 });
+  }
+}
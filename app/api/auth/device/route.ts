@@ -0,0 +1,135 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateUUID, normalizeUserCode } from '@/lib/webcrypto';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getDeviceCodeByUserCode, getOAuthClientById, resolveDeviceCode, saveOAuthConsent } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { getAccountsSessionId, getSessionAuthTime } from '@/lib/accounts-session';
+
+async function getSessionPayload(request: NextRequest) {
+  const cookieToken = request.cookies.get('access_token')?.value;
+  const headerToken = request.headers.get('authorization')?.replace('Bearer ', '');
+  const accessToken = cookieToken || headerToken;
+  if (!accessToken) return null;
+
+  const payload = await verifyJWT(accessToken, { audience: getSessionAudience() });
+  return payload && payload.type === 'access' && payload.sub_type !== 'client' ? payload : null;
+}
+
+/**
+ * GET /api/auth/device?user_code=XXXX-XXXX
+ *
+ * Look up a pending device authorization for the /device page.
+ * Requires a signed-in user.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const jwtPayload = await getSessionPayload(request);
+    if (!jwtPayload) {
+      return NextResponse.json(
+        { error: 'unauthorized', error_description: 'User must be authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const userCode = normalizeUserCode(request.nextUrl.searchParams.get('user_code') || '');
+    const db = await getDatabase();
+    const deviceCode = await getDeviceCodeByUserCode(db, userCode) as any;
+    if (!deviceCode) {
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'Code not found or expired' },
+        { status: 404 }
+      );
+    }
+
+    const client = await getOAuthClientById(db, deviceCode.client_id) as any;
+    if (!client || !client.is_active) {
+      return NextResponse.json(
+        { error: 'invalid_client', error_description: 'Application not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      userCode,
+      clientId: client.client_id,
+      clientName: client.name,
+      homepageUrl: client.homepage_url,
+      scopes: (deviceCode.scopes || '').split(' ').filter(Boolean),
+      expiresIn: Math.max(0, Math.floor((new Date(deviceCode.expires_at).getTime() - Date.now()) / 1000)),
+    });
+  } catch (error) {
+    console.error('[Device] Lookup error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to look up device code' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/device
+ *
+ * Record the signed-in user's consent decision for a device code.
+ *
+ * Request Body:
+ * { "userCode": "XXXX-XXXX", "approved": true }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: any = await request.json();
+    const { approved } = body;
+
+    if (!body.userCode || approved === undefined) {
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const jwtPayload = await getSessionPayload(request);
+    if (!jwtPayload) {
+      return NextResponse.json(
+        { error: 'unauthorized', error_description: 'User must be authenticated to authorize' },
+        { status: 401 }
+      );
+    }
+
+    const userCode = normalizeUserCode(body.userCode);
+    const db = await getDatabase();
+    const deviceCode = await getDeviceCodeByUserCode(db, userCode) as any;
+    if (!deviceCode) {
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'Code not found or expired' },
+        { status: 400 }
+      );
+    }
+
+    // OIDC auth_time: when the user signed in to this session
+    const authTime = await getSessionAuthTime(db, request, jwtPayload);
+
+    await resolveDeviceCode(db, userCode, {
+      approved: !!approved,
+      userId: jwtPayload.sub,
+      authTime,
+      sessionId: await getAccountsSessionId(db, request),
+    });
+    if (approved) {
+      await saveOAuthConsent(db, {
+        id: generateUUID(),
+        userId: jwtPayload.sub,
+        clientId: deviceCode.client_id,
+        scopes: (deviceCode.scopes || '').split(' ').filter(Boolean),
+      });
+    }
+
+    return NextResponse.json({ success: true, approved: !!approved });
+  } catch (error) {
+    console.error('[Device] Consent error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to record authorization' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRandomString, generateUserCode, generateUUID } from '@/lib/webcrypto';
+import { createDeviceCode } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { authenticateClient, parseOAuthRequestBody } from '@/lib/client-auth';
+import { getIssuer } from '@/lib/oidc';
+import { findUnavailableScopes } from '@/lib/scopes';
+
+const DEVICE_CODE_EXPIRATION_SECONDS = 10 * 60;
+const DEFAULT_POLL_INTERVAL_SECONDS = 5;
+
+/**
+ * POST /api/auth/device_authorization
+ *
+ * OAuth 2.0 Device Authorization Endpoint (RFC 8628 §3.1)
+ *
+ * For input-constrained clients (CLIs, TVs). The client shows `user_code` and
+ * `verification_uri` to the user, then polls /api/auth/token with
+ * grant_type=urn:ietf:params:oauth:grant-type:device_code.
+ *
+ * Request body (form-encoded or JSON):
+ *   client_id=<id> (plus client_secret for confidential clients)
+ *   scope=<space-separated scopes> (optional, defaults to the client's registered scopes)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseOAuthRequestBody(request);
+    const db = await getDatabase();
+
+    const { client, error } = await authenticateClient(db, request, body, { allowPublic: true });
+    if (error) return error;
+
+    const registeredScopes: string[] = JSON.parse(client.scopes || '[]');
+    const requestedScopes: string[] = body.scope ? body.scope.split(' ').filter(Boolean) : registeredScopes;
+    const unavailableScopes = await findUnavailableScopes(db, client, requestedScopes);
+    if (unavailableScopes.length > 0) {
+      return NextResponse.json(
+        { error: 'invalid_scope', error_description: `Scopes not available to this client: ${unavailableScopes.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const deviceCode = generateRandomString(32);
+    const userCode = generateUserCode();
+
+    await createDeviceCode(db, {
+      id: generateUUID(),
+      deviceCode,
+      userCode,
+      clientId: client.client_id,
+      scopes: requestedScopes.join(' '),
+      pollInterval: DEFAULT_POLL_INTERVAL_SECONDS,
+      expiresAt: new Date(Date.now() + DEVICE_CODE_EXPIRATION_SECONDS * 1000),
+    });
+
+    const verificationUri = `${getIssuer()}/device`;
+
+    return NextResponse.json(
+      {
+        device_code: deviceCode,
+        user_code: userCode,
+        verification_uri: verificationUri,
+        verification_uri_complete: `${verificationUri}?user_code=${encodeURIComponent(userCode)}`,
+        expires_in: DEVICE_CODE_EXPIRATION_SECONDS,
+        interval: DEFAULT_POLL_INTERVAL_SECONDS,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[Device Authorization] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to start device authorization' },
+      { status: 500 }
+    );
+  }
+}
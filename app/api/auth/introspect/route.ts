@@ -0,0 +1,89 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, ANY_AUDIENCE } from '@/lib/jwt';
+import { hashString } from '@/lib/webcrypto';
+import { getRefreshTokenByHash, getUserById } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { authenticateClient, parseOAuthRequestBody } from '@/lib/client-auth';
+import { getIssuer } from '@/lib/oidc';
+
+const INACTIVE = { active: false };
+
+/**
+ * POST /api/auth/introspect
+ *
+ * OAuth 2.0 Token Introspection (RFC 7662)
+ *
+ * Resource servers authenticate as a registered OAuth client (HTTP Basic or
+ * client_id/client_secret in the body) and ask whether a token is still active.
+ * Refresh tokens are checked against refresh_tokens, so their revocation is
+ * visible immediately. Access tokens are stateless: only the signature, expiry
+ * and the user's account status are checked, so a revoked grant's access
+ * tokens stay active until they expire. Tokens issued to a different client
+ * are reported as inactive.
+ *
+ * Request body (form-encoded or JSON):
+ *   token=<access or refresh token>
+ *   token_type_hint=access_token|refresh_token (optional)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseOAuthRequestBody(request);
+    const db = await getDatabase();
+
+    const { client, error } = await authenticateClient(db, request, body);
+    if (error) return error;
+
+    const { token } = body;
+    if (!token) {
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'token is required' },
+        { status: 400 }
+      );
+    }
+
+    const respond = (data: object) =>
+      NextResponse.json(data, { headers: { 'Cache-Control': 'no-store' } });
+
+    const payload = await verifyJWT(token, { audience: ANY_AUDIENCE });
+    if (!payload) return respond(INACTIVE);
+
+    let tokenClientId = payload.client_id;
+
+    if (payload.type === 'refresh') {
+      const tokenRecord = await getRefreshTokenByHash(db, await hashString(token)) as any;
+      if (!tokenRecord) return respond(INACTIVE);
+      tokenClientId = tokenRecord.client_id || tokenClientId;
+    }
+
+    // Never disclose tokens that belong to another client (or to first-party sessions)
+    if (tokenClientId !== client.client_id) return respond(INACTIVE);
+
+    // App tokens (client_credentials) have the client itself as subject
+    if (payload.sub_type !== 'client') {
+      const user = await getUserById(db, payload.sub) as any;
+      if (!user || !user.is_active) return respond(INACTIVE);
+    }
+
+    return respond({
+      active: true,
+      scope: payload.scope,
+      client_id: tokenClientId,
+      sub: payload.sub,
+      exp: payload.exp,
+      iat: payload.iat,
+      iss: payload.iss || getIssuer(),
+      ...(payload.aud && { aud: payload.aud }),
+      token_type: payload.type === 'access' ? 'Bearer' : 'refresh_token',
+      sub_type: payload.sub_type || 'user',
+      ...(payload.act && { act: payload.act }),
+    });
+  } catch (error) {
+    console.error('[Introspect] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to introspect token' },
+      { status: 500 }
+    );
+  }
+}
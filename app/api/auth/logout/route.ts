@@ -1,9 +1,9 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { hashString } from '@/lib/webcrypto';
-import { revokeRefreshToken } from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
+import { endAccountsSession } from '@/lib/accounts-session';
+import { getIssuer } from '@/lib/oidc';
 
 /**
  * POST /api/auth/logout
@@ -11,27 +11,29 @@ import { getDatabase } from '@/lib/d1-client';
  * 
  * Features:
  * - Revoke refresh token in database
+ * - Ending an accounts.elixpo session also ends the OAuth client sessions
+ *   approved in it: those clients are sent back-channel logout tokens and
+ *   their refresh tokens are revoked. Other devices stay signed in.
  * - Clear all authentication cookies
- * - Support logout_redirect_uri for SSO
+ *
+ * Relying parties that need to redirect the user back after logout use the
+ * OIDC end_session_endpoint (/oauth/logout), which validates the redirect.
  * 
  * Request body (optional):
  * {
- *   "refresh_token": "jwt_token", // If not using cookies
- *   "logout_redirect_uri": "https://app.example.com/logged-out"
+ *   "refresh_token": "jwt_token" // If not using cookies
  * }
  */
 export async function POST(request: NextRequest) {
   try {
     const body: any = await request.json().catch(() => ({}));
     const refreshToken = body.refresh_token || request.cookies.get('refresh_token')?.value;
-    const logoutRedirectUri = body.logout_redirect_uri;
 
     // Revoke refresh token in database if available
     if (refreshToken) {
       try {
         const db = await getDatabase();
-        const tokenHash = await hashString(refreshToken);
-        await revokeRefreshToken(db, tokenHash);
+        await endAccountsSession(db, getIssuer(), refreshToken);
         console.log('[Logout] Refresh token revoked');
       } catch (error) {
         console.error('[Logout] Error revoking token:', error);
@@ -41,10 +43,7 @@ export async function POST(request: NextRequest) {
 
     // Clear all auth cookies
     const response = NextResponse.json(
-      { 
-        message: 'Successfully logged out',
-        redirect: logoutRedirectUri || undefined
-      },
+      { message: 'Successfully logged out' },
       { status: 200 }
     );
 
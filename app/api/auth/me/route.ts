@@ -1,9 +1,10 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT, createAccessToken, createRefreshToken } from '@/lib/jwt';
-import { getUserById, getRefreshTokenByHash, revokeRefreshToken, createRefreshToken as storeRefreshToken } from '@/lib/db';
+import { verifyJWT, getSessionAudience, createAccessToken, createRefreshToken } from '@/lib/jwt';
+import { getUserById, getRefreshTokenByHash, claimRefreshToken, createRefreshToken as storeRefreshToken } from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
+import { detectRefreshTokenReuse } from '@/lib/refresh-token-reuse';
 import { hashString, generateUUID } from '@/lib/webcrypto';
 import type { D1Database } from '@cloudflare/workers-types';
 
@@ -24,15 +25,16 @@ async function getUserIdentity(db: D1Database, userId: string) {
  */
 async function tryAutoRefresh(request: NextRequest, refreshToken: string) {
   try {
-    const payload = await verifyJWT(refreshToken);
+    const payload = await verifyJWT(refreshToken, { audience: getSessionAudience() });
     if (!payload || payload.type !== 'refresh') {
       return NextResponse.json({ error: 'Invalid refresh token' }, { status: 401 });
     }
 
     const db = await getDatabase();
     const refreshTokenHash = await hashString(refreshToken);
-    const tokenRecord = await getRefreshTokenByHash(db, refreshTokenHash);
+    const tokenRecord = await getRefreshTokenByHash(db, refreshTokenHash) as any;
     if (!tokenRecord) {
+      await detectRefreshTokenReuse(db, request, refreshTokenHash);
       return NextResponse.json({ error: 'Refresh token revoked' }, { status: 401 });
     }
 
@@ -55,12 +57,19 @@ async function tryAutoRefresh(request: NextRequest, refreshToken: string) {
     const newRefreshToken = await createRefreshToken(payload.sub, payload.provider, refreshDays);
     const newRefreshTokenHash = await hashString(newRefreshToken);
 
-    // Rotate refresh token
-    await revokeRefreshToken(db, refreshTokenHash);
+    // Rotate refresh token: only the request that revokes it may
+    const claimed = await claimRefreshToken(db, refreshTokenHash);
+    if (claimed.meta.changes !== 1) {
+      await detectRefreshTokenReuse(db, request, refreshTokenHash, { lostRotation: true });
+      return NextResponse.json({ error: 'Refresh token revoked' }, { status: 401 });
+    }
     await storeRefreshToken(db, {
       id: generateUUID(),
       userId: payload.sub,
       tokenHash: newRefreshTokenHash,
+      familyId: tokenRecord.family_id || tokenRecord.id,
+      parentId: tokenRecord.id,
+      authTime: tokenRecord.auth_time,
       expiresAt: new Date(Date.now() + refreshDays * 24 * 60 * 60 * 1000),
     });
 
@@ -122,7 +131,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    let payload = await verifyJWT(accessToken);
+    let payload = await verifyJWT(accessToken, { audience: getSessionAudience() });
 
     // Access token expired but refresh token cookie exists — auto-refresh
     if ((!payload || payload.type !== 'access') && refreshTokenCookie && cookieToken) {
@@ -197,7 +206,7 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'No access token' }, { status: 401 });
     }
 
-    const payload = await verifyJWT(accessToken);
+    const payload = await verifyJWT(accessToken, { audience: getSessionAudience() });
     if (!payload || payload.type !== 'access') {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
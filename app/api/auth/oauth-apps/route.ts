@@ -1,7 +1,7 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
 import { getDatabase } from '@/lib/d1-client';
 import { listUserOAuthClients } from '@/lib/db';
 
@@ -9,7 +9,7 @@ export async function GET(request: NextRequest) {
   const token = request.cookies.get('access_token')?.value;
   if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-  const payload = await verifyJWT(token);
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
   if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
 
   try {
@@ -0,0 +1,44 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getOAuthClientByIdWithSecret, listBackchannelLogoutDeliveries } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+
+/**
+ * GET /api/auth/oauth-clients/[client_id]/logout-deliveries
+ *
+ * Recent back-channel logout notifications sent to the application, so its
+ * owner can see which were delivered and which failed after retries
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_id: string }> }
+) {
+  try {
+    const token = request.cookies.get('access_token')?.value;
+    if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
+    if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+
+    const { client_id } = await params;
+    const db = await getDatabase();
+
+    // Verify ownership
+    const app = await getOAuthClientByIdWithSecret(db, client_id) as any;
+    if (!app) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (app.owner_id !== payload.sub) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const deliveries = await listBackchannelLogoutDeliveries(db, client_id);
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('[OAuth Client] Logout deliveries error:', error);
+    return NextResponse.json({ error: 'Failed to fetch logout deliveries' }, { status: 500 });
+  }
+}
@@ -1,11 +1,24 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
-import { getOAuthClientById, getOAuthClientByIdWithSecret, updateOAuthClient, getUserById } from '@/lib/db';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getOAuthClientByIdWithSecret, updateOAuthClient, getUserById } from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
-import { generateRandomString, hashString } from '@/lib/webcrypto';
+import { DEFAULT_SECRET_GRACE_PERIOD_HOURS, MAX_SECRET_GRACE_PERIOD_HOURS, rotateClientSecret } from '@/lib/client-secrets';
 import { sendAppDeletedEmail } from '@/lib/email';
+import { findUnknownScopes } from '@/lib/scopes';
+import { APPLICATION_TYPES, findRedirectUriError, getApplicationType, matchesRegisteredRedirectUri } from '@/lib/redirect-uri';
+import { findTokenSettingsError, getRefreshTokenExpiryMode } from '@/lib/token-lifetimes';
+
+/** Token lifetimes and allowed grant types, as returned to the owner */
+function tokenSettings(app: any) {
+  return {
+    access_token_ttl_minutes: app?.access_token_ttl_minutes ?? null,
+    refresh_token_ttl_days: app?.refresh_token_ttl_days ?? null,
+    refresh_token_expiry: getRefreshTokenExpiryMode(app),
+    grant_types: app?.grant_types ? JSON.parse(app.grant_types) : null,
+  };
+}
 
 /**
  * PUT /api/auth/oauth-clients/[client_id]
@@ -21,12 +34,12 @@ export async function PUT(
     const token = request.cookies.get('access_token')?.value;
     if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    const payload = await verifyJWT(token);
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
     if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
 
     const { client_id } = await params;
     const body: any = await request.json();
-    const { name, redirect_uris, scopes, description, homepage_url, logo_url } = body;
+    const { name, application_type, redirect_uris, post_logout_redirect_uris, backchannel_logout_uri, require_pushed_authorization_requests, scopes, description, homepage_url, logo_url, access_token_ttl_minutes, refresh_token_ttl_days, refresh_token_expiry, grant_types } = body;
 
     if (!client_id) {
       return NextResponse.json(
@@ -46,6 +59,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
+    if (application_type !== undefined && !APPLICATION_TYPES.includes(application_type)) {
+      return NextResponse.json({ error: 'application_type must be "web" or "native"' }, { status: 400 });
+    }
+    const applicationType = application_type ?? getApplicationType(app);
+
     // Validate redirect URIs if provided
     if (redirect_uris !== undefined) {
       if (!Array.isArray(redirect_uris) || redirect_uris.length === 0) {
@@ -54,23 +72,86 @@ export async function PUT(
       if (redirect_uris.length > 5) {
         return NextResponse.json({ error: 'Maximum of 5 redirect URIs allowed' }, { status: 400 });
       }
-      for (const uri of redirect_uris) {
+    }
+    // Switching to web re-checks the registered URIs against the stricter rules
+    if (redirect_uris !== undefined || application_type !== undefined) {
+      for (const uri of redirect_uris ?? JSON.parse(app.redirect_uris || '[]')) {
+        const redirectUriError = findRedirectUriError(uri, applicationType);
+        if (redirectUriError) {
+          return NextResponse.json({ error: redirectUriError }, { status: 400 });
+        }
+      }
+    }
+
+    // Validate scopes against the scope registry if provided
+    if (scopes !== undefined) {
+      if (!Array.isArray(scopes) || scopes.length === 0) {
+        return NextResponse.json({ error: 'scopes must be a non-empty array' }, { status: 400 });
+      }
+      const unknownScopes = await findUnknownScopes(db, scopes);
+      if (unknownScopes.length > 0) {
+        return NextResponse.json({ error: `Unknown scope: ${unknownScopes.join(', ')}` }, { status: 400 });
+      }
+    }
+
+    // Validate post-logout redirect URIs if provided (may be empty)
+    if (post_logout_redirect_uris !== undefined) {
+      if (!Array.isArray(post_logout_redirect_uris)) {
+        return NextResponse.json({ error: 'post_logout_redirect_uris must be an array' }, { status: 400 });
+      }
+      if (post_logout_redirect_uris.length > 5) {
+        return NextResponse.json({ error: 'Maximum of 5 post-logout redirect URIs allowed' }, { status: 400 });
+      }
+      for (const uri of post_logout_redirect_uris) {
         try {
           const parsed = new URL(uri);
           if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
-            return NextResponse.json({ error: `Redirect URI must use HTTP or HTTPS: ${uri}` }, { status: 400 });
+            return NextResponse.json({ error: `Post-logout redirect URI must use HTTP or HTTPS: ${uri}` }, { status: 400 });
           }
         } catch {
-          return NextResponse.json({ error: `Invalid redirect_uri: ${uri}` }, { status: 400 });
+          return NextResponse.json({ error: `Invalid post_logout_redirect_uri: ${uri}` }, { status: 400 });
+        }
+      }
+    }
+
+    // Validate back-channel logout URI if provided (empty string clears it)
+    if (backchannel_logout_uri) {
+      try {
+        const parsed = new URL(backchannel_logout_uri);
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+          return NextResponse.json({ error: 'Back-channel logout URI must use HTTP or HTTPS' }, { status: 400 });
         }
+      } catch {
+        return NextResponse.json({ error: `Invalid backchannel_logout_uri: ${backchannel_logout_uri}` }, { status: 400 });
       }
     }
 
+    if (require_pushed_authorization_requests !== undefined && typeof require_pushed_authorization_requests !== 'boolean') {
+      return NextResponse.json({ error: 'require_pushed_authorization_requests must be a boolean' }, { status: 400 });
+    }
+
+    // Token lifetimes and grant types; null resets a setting to the default
+    const tokenSettingsError = findTokenSettingsError(
+      { access_token_ttl_minutes, refresh_token_ttl_days, refresh_token_expiry, grant_types },
+      Boolean(app.is_public)
+    );
+    if (tokenSettingsError) {
+      return NextResponse.json({ error: tokenSettingsError }, { status: 400 });
+    }
+
     try {
       await updateOAuthClient(db, client_id, {
         ...(name !== undefined && { name }),
+        ...(application_type !== undefined && { applicationType: application_type }),
         ...(redirect_uris !== undefined && { redirectUris: JSON.stringify(redirect_uris) }),
+        ...(post_logout_redirect_uris !== undefined && { postLogoutRedirectUris: JSON.stringify(post_logout_redirect_uris) }),
+        ...(backchannel_logout_uri !== undefined && { backchannelLogoutUri: backchannel_logout_uri || null }),
+        ...(require_pushed_authorization_requests !== undefined && { requirePushedAuthorizationRequests: require_pushed_authorization_requests }),
         ...(scopes !== undefined && { scopes: JSON.stringify(scopes) }),
+        ...(access_token_ttl_minutes !== undefined && { accessTokenTtlMinutes: access_token_ttl_minutes }),
+        ...(refresh_token_ttl_days !== undefined && { refreshTokenTtlDays: refresh_token_ttl_days }),
+        ...(refresh_token_expiry !== undefined && { refreshTokenExpiry: refresh_token_expiry }),
+        ...(grant_types !== undefined && { grantTypes: grant_types === null ? null : JSON.stringify(grant_types) }),
         ...(description !== undefined && { description }),
         ...(homepage_url !== undefined && { homepageUrl: homepage_url }),
         ...(logo_url !== undefined && { logoUrl: logo_url }),
@@ -83,15 +164,21 @@ export async function PUT(
       );
     }
 
-    const updated = await getOAuthClientById(db, client_id) as any;
+    const updated = await getOAuthClientByIdWithSecret(db, client_id) as any;
     return NextResponse.json({
       client_id,
       name: updated?.name,
       description: updated?.description,
       homepage_url: updated?.homepage_url,
       redirect_uris: JSON.parse(updated?.redirect_uris || '[]'),
+      post_logout_redirect_uris: JSON.parse(updated?.post_logout_redirect_uris || '[]'),
+      backchannel_logout_uri: updated?.backchannel_logout_uri || '',
+      require_pushed_authorization_requests: Boolean(updated?.require_pushed_authorization_requests),
       scopes: JSON.parse(updated?.scopes || '[]'),
       is_active: Boolean(updated?.is_active),
+      client_type: updated?.is_public ? 'public' : 'confidential',
+      application_type: updated?.application_type || 'web',
+      ...tokenSettings(updated),
       request_count: updated?.request_count ?? 0,
       last_used: updated?.last_used,
     });
@@ -108,7 +195,10 @@ export async function PUT(
  * PATCH /api/auth/oauth-clients/[client_id]
  *
  * Regenerate the client secret for an OAuth application
- * Returns the new secret (shown only once)
+ * Returns the new secret (shown only once). The previous secret keeps working
+ * for the grace period so a deploy can cut over without downtime.
+ *
+ * Body (optional): { "grace_period_hours": 24 }  (0 retires the previous secret now)
  */
 export async function PATCH(
   request: NextRequest,
@@ -118,7 +208,7 @@ export async function PATCH(
     const token = request.cookies.get('access_token')?.value;
     if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    const payload = await verifyJWT(token);
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
     if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
 
     const { client_id } = await params;
@@ -138,17 +228,28 @@ export async function PATCH(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Generate new secret
-    const newSecret = `secret_${generateRandomString(64)}`;
-    const newSecretHash = await hashString(newSecret);
+    if (app.is_public) {
+      return NextResponse.json({ error: 'Public clients do not have a client secret' }, { status: 400 });
+    }
+
+    const body: any = await request.json().catch(() => ({}));
+    const gracePeriodHours = body.grace_period_hours ?? DEFAULT_SECRET_GRACE_PERIOD_HOURS;
+    if (typeof gracePeriodHours !== 'number' || gracePeriodHours < 0 || gracePeriodHours > MAX_SECRET_GRACE_PERIOD_HOURS) {
+      return NextResponse.json(
+        { error: `grace_period_hours must be between 0 and ${MAX_SECRET_GRACE_PERIOD_HOURS}` },
+        { status: 400 }
+      );
+    }
 
-    await updateOAuthClient(db, client_id, { clientSecretHash: newSecretHash });
+    const { id, secret, previousExpiresAt } = await rotateClientSecret(db, client_id, { gracePeriodHours });
 
     console.log(`[OAuth Client] Secret regenerated for: ${client_id}`);
 
     return NextResponse.json({
       client_id,
-      client_secret: newSecret,
+      client_secret: secret,
+      client_secret_id: id,
+      previous_secret_expires_at: previousExpiresAt,
       _notice: 'Store this secret securely. It will NOT be retrievable after this response.',
     });
   } catch (error) {
@@ -170,7 +271,7 @@ export async function DELETE(
     const token = request.cookies.get('access_token')?.value;
     if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    const payload = await verifyJWT(token);
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
     if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
 
     const { client_id } = await params;
@@ -244,7 +345,7 @@ export async function GET(
     const token = request.cookies.get('access_token')?.value;
     if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-    const payload = await verifyJWT(token);
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
     if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
 
     const { client_id } = await params;
@@ -281,7 +382,7 @@ export async function GET(
 
     // Validate redirect URI if provided
     if (validateRedirectUri) {
-      if (!redirect_uris.includes(validateRedirectUri)) {
+      if (!matchesRegisteredRedirectUri(redirect_uris, validateRedirectUri, getApplicationType(app))) {
         return NextResponse.json(
           {
             error: 'Invalid redirect URI',
@@ -301,11 +402,17 @@ export async function GET(
       redirect_uris,
       scopes,
       is_active: Boolean((app as any).is_active),
+      client_type: (app as any).is_public ? 'public' : 'confidential',
+      application_type: (app as any).application_type || 'web',
       created_at: (app as any).created_at,
       ...(isOwner && {
         description: (app as any).description,
         homepage_url: (app as any).homepage_url,
         logo_url: (app as any).logo_url,
+        post_logout_redirect_uris: JSON.parse((app as any).post_logout_redirect_uris || '[]'),
+        backchannel_logout_uri: (app as any).backchannel_logout_uri || '',
+        require_pushed_authorization_requests: Boolean((app as any).require_pushed_authorization_requests),
+        ...tokenSettings(app),
         request_count: (app as any).request_count ?? 0,
         last_used: (app as any).last_used,
       }),
@@ -0,0 +1,58 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getOAuthClientByIdWithSecret } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { listClientSecretInfo, retireClientSecret } from '@/lib/client-secrets';
+
+/**
+ * DELETE /api/auth/oauth-clients/[client_id]/secrets/[secret_id]
+ *
+ * Retire a client secret now, e.g. the previous one once every deploy of the
+ * app uses the regenerated secret. The last active secret can't be retired;
+ * regenerate it instead.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_id: string; secret_id: string }> }
+) {
+  try {
+    const token = request.cookies.get('access_token')?.value;
+    if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
+    if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+
+    const { client_id, secret_id } = await params;
+    const db = await getDatabase();
+
+    // Verify ownership
+    const app = await getOAuthClientByIdWithSecret(db, client_id) as any;
+    if (!app) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (app.owner_id !== payload.sub) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const active = await listClientSecretInfo(db, client_id);
+    if (!active.some((secret) => secret.id === secret_id)) {
+      return NextResponse.json({ error: 'Secret not found or already expired' }, { status: 404 });
+    }
+    if (active.length === 1) {
+      return NextResponse.json(
+        { error: 'Cannot retire the only active secret; regenerate it instead' },
+        { status: 400 }
+      );
+    }
+
+    await retireClientSecret(db, client_id, secret_id);
+    console.log(`[OAuth Client] Secret ${secret_id} retired for: ${client_id}`);
+
+    return NextResponse.json({ success: true, secrets: await listClientSecretInfo(db, client_id) });
+  } catch (error) {
+    console.error('[OAuth Client] Secret retire error:', error);
+    return NextResponse.json({ error: 'Failed to retire secret' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getOAuthClientByIdWithSecret } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { listClientSecretInfo } from '@/lib/client-secrets';
+
+/**
+ * GET /api/auth/oauth-clients/[client_id]/secrets
+ *
+ * The application's active client secrets (metadata only, never the secret),
+ * with when each was created, when it expires and when it was last used
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_id: string }> }
+) {
+  try {
+    const token = request.cookies.get('access_token')?.value;
+    if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
+    if (!payload) return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+
+    const { client_id } = await params;
+    const db = await getDatabase();
+
+    // Verify ownership
+    const app = await getOAuthClientByIdWithSecret(db, client_id) as any;
+    if (!app) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (app.owner_id !== payload.sub) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const secrets = await listClientSecretInfo(db, client_id);
+
+    return NextResponse.json({ secrets });
+  } catch (error) {
+    console.error('[OAuth Client] Secrets list error:', error);
+    return NextResponse.json({ error: 'Failed to fetch client secrets' }, { status: 500 });
+  }
+}
@@ -1,18 +1,22 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateRandomString, hashString } from '@/lib/webcrypto';
+import { generateRandomString } from '@/lib/webcrypto';
 import { createOAuthClient, getOAuthClientById, getUserById } from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
-import { verifyJWT } from '@/lib/jwt';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { addInitialClientSecret, generateClientSecret } from '@/lib/client-secrets';
 import { sendAppRegisteredEmail } from '@/lib/email';
+import { SUPPORTED_SCOPES } from '@/lib/oidc';
+import { findUnknownScopes } from '@/lib/scopes';
+import { APPLICATION_TYPES, findRedirectUriError, type ApplicationType } from '@/lib/redirect-uri';
 
 async function getAuth(request: NextRequest) {
   const token =
     request.cookies.get('access_token')?.value ||
     request.headers.get('authorization')?.replace('Bearer ', '');
   if (!token) return null;
-  const payload = await verifyJWT(token);
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
   if (!payload || payload.type !== 'access') return null;
   return payload;
 }
@@ -33,13 +37,22 @@ async function getAuth(request: NextRequest) {
  *   "redirect_uris": ["https://myservice.com/auth/callback"],
  *   "logo_uri": "https://myservice.com/logo.png", (optional)
  *   "description": "Brief description of your service", (optional)
- *   "scopes": ["openid", "profile", "email"]
+ *   "scopes": ["openid", "profile", "email", "billing:read"], (any active registry scope)
+ *   "client_type": "confidential" | "public" (optional, default confidential)
+ *   "application_type": "web" | "native" (optional, default web)
  * }
  * 
+ * Public clients (SPAs, mobile and native apps) receive no client_secret and
+ * must use PKCE at /oauth/authorize and the token endpoint.
+ * 
+ * Native apps (RFC 8252) may register loopback redirects such as
+ * http://127.0.0.1/callback, which match on any port, and private-use scheme
+ * redirects such as com.example.app:/callback.
+ * 
  * Response:
  * {
  *   "client_id": "cli_xxxxx",
- *   "client_secret": "secret_xxxxx",
+ *   "client_secret": "secret_xxxxx", (confidential clients only)
  *   "name": "My Service Name",
  *   "redirect_uris": ["https://myservice.com/auth/callback"],
  *   "scopes": ["openid", "profile", "email"],
@@ -62,7 +75,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: any = await request.json();
-    const { name, redirect_uris, logo_uri, description, homepage_url, scopes } = body;
+    const { name, redirect_uris, logo_uri, description, homepage_url, scopes, client_type, application_type, token_endpoint_auth_method } = body;
 
     // Validate required fields
     if (!name || !redirect_uris || !Array.isArray(redirect_uris) || redirect_uris.length === 0) {
@@ -79,43 +92,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate redirect URIs are valid URLs (HTTP and HTTPS allowed)
+    const applicationType: ApplicationType = application_type ?? 'web';
+    if (!APPLICATION_TYPES.includes(applicationType)) {
+      return NextResponse.json(
+        { error: 'application_type must be "web" or "native"' },
+        { status: 400 }
+      );
+    }
+
+    // Validate redirect URIs (native apps may also use private-use schemes)
     const validUris: string[] = [];
     for (const uri of redirect_uris) {
-      try {
-        const parsed = new URL(uri);
-        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
-          return NextResponse.json(
-            { error: `Redirect URI must use HTTP or HTTPS: ${uri}` },
-            { status: 400 }
-          );
-        }
-        validUris.push(uri);
-      } catch {
+      const redirectUriError = findRedirectUriError(uri, applicationType);
+      if (redirectUriError) {
+        return NextResponse.json({ error: redirectUriError }, { status: 400 });
+      }
+      validUris.push(uri);
+    }
+
+    // Validate scopes against the scope registry if provided
+    const validScopes = SUPPORTED_SCOPES;
+    if (scopes !== undefined) {
+      if (!Array.isArray(scopes)) {
+        return NextResponse.json({ error: 'scopes must be an array' }, { status: 400 });
+      }
+      const unknownScopes = await findUnknownScopes(db, scopes);
+      if (unknownScopes.length > 0) {
         return NextResponse.json(
-          { error: `Invalid redirect_uri: ${uri}` },
+          { error: `Unknown scope: ${unknownScopes.join(', ')}. Define API scopes in the scope registry first.` },
           { status: 400 }
         );
       }
     }
 
-    // Validate scopes if provided
-    const validScopes = ['openid', 'profile', 'email', 'phone', 'address'];
-    if (scopes && Array.isArray(scopes)) {
-      for (const scope of scopes) {
-        if (!validScopes.includes(scope)) {
-          return NextResponse.json(
-            { error: `Invalid scope: ${scope}. Valid scopes: ${validScopes.join(', ')}` },
-            { status: 400 }
-          );
-        }
-      }
+    if (client_type !== undefined && client_type !== 'public' && client_type !== 'confidential') {
+      return NextResponse.json(
+        { error: 'client_type must be "public" or "confidential"' },
+        { status: 400 }
+      );
     }
+    const isPublic = client_type === 'public';
 
-    // Generate secure credentials
+    // Dashboard clients authenticate with their secret; keys need dynamic registration
+    const tokenEndpointAuthMethod = isPublic ? 'none' : (token_endpoint_auth_method ?? 'client_secret_basic');
+    if (!['none', 'client_secret_basic', 'client_secret_post'].includes(tokenEndpointAuthMethod)) {
+      return NextResponse.json(
+        { error: 'token_endpoint_auth_method must be "client_secret_basic" or "client_secret_post"' },
+        { status: 400 }
+      );
+    }
+
+    // Generate secure credentials (public clients get no secret)
     const clientId = `cli_${generateRandomString(32)}`;
-    const clientSecret = `secret_${generateRandomString(64)}`;
-    const clientSecretHash = await hashString(clientSecret);
+    const clientSecret = isPublic ? null : generateClientSecret();
 
     const now = new Date().toISOString();
 
@@ -123,14 +152,19 @@ export async function POST(request: NextRequest) {
     try {
       await createOAuthClient(db, {
         clientId,
-        clientSecretHash,
         name,
         redirectUris: JSON.stringify(validUris),
         scopes: JSON.stringify(scopes || validScopes),
         ownerId: auth.sub,
         description,
         homepageUrl: homepage_url,
+        isPublic,
+        applicationType,
+        tokenEndpointAuthMethod,
       });
+      if (clientSecret) {
+        await addInitialClientSecret(db, clientId, clientSecret);
+      }
       console.log(`[OAuth Client] Registered: ${name} (${clientId})`);
 
       // Notify owner via email (fire-and-forget)
@@ -155,7 +189,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       {
         client_id: clientId,
-        client_secret: clientSecret,
+        ...(clientSecret && { client_secret: clientSecret }),
+        client_type: isPublic ? 'public' : 'confidential',
+        application_type: applicationType,
+        token_endpoint_auth_method: tokenEndpointAuthMethod,
         name,
         redirect_uris: validUris,
         homepage_url,
@@ -163,7 +200,9 @@ export async function POST(request: NextRequest) {
         description,
         scopes: scopes || validScopes,
         created_at: now,
-        _notice: 'Store client_secret securely. It will NOT be retrievable after this response.',
+        _notice: isPublic
+          ? 'Public clients have no secret. Use PKCE (code_challenge / code_verifier) when requesting tokens.'
+          : 'Store client_secret securely. It will NOT be retrievable after this response.',
       },
       { status: 201 }
     );
@@ -210,6 +249,8 @@ export async function GET(request: NextRequest) {
       scopes: JSON.parse((client as any).scopes || '[]'),
       created_at: (client as any).created_at,
       is_active: (client as any).is_active,
+      client_type: (client as any).is_public ? 'public' : 'confidential',
+      application_type: (client as any).application_type || 'web',
     });
 
   } catch (error) {
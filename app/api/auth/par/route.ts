@@ -0,0 +1,86 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRandomString } from '@/lib/webcrypto';
+import { createPushedAuthorizationRequest } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { authenticateClient, parseOAuthRequestBody } from '@/lib/client-auth';
+import { validateAuthorizationRequest } from '@/lib/authorization-request';
+
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:';
+// Long enough for the user to sign in on the way through /oauth/authorize
+const PAR_EXPIRATION_SECONDS = 10 * 60;
+
+// Client authentication parameters are not authorization parameters
+const CLIENT_AUTH_PARAMS = ['client_secret', 'client_assertion', 'client_assertion_type'];
+
+/**
+ * POST /api/auth/par
+ *
+ * Pushed Authorization Request Endpoint (RFC 9126)
+ *
+ * The client sends its authorization parameters here, authenticated, instead
+ * of in the browser's query string, then redirects the user to
+ *   /oauth/authorize?client_id=<id>&request_uri=<request_uri>
+ *
+ * Request body (form-encoded or JSON): the /oauth/authorize parameters
+ *   (response_type, redirect_uri, state, scope, code_challenge, ...) plus
+ *   client authentication (client_id, and client_secret or client_assertion
+ *   for confidential clients)
+ *
+ * Response (201): { "request_uri": "urn:ietf:params:oauth:request_uri:...", "expires_in": 600 }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseOAuthRequestBody(request);
+    const db = await getDatabase();
+
+    const { client, error } = await authenticateClient(db, request, body, { allowPublic: true });
+    if (error) return error;
+
+    // §2.1: a pushed request can't itself point at another one
+    if (body.request_uri) {
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'request_uri must not be pushed' },
+        { status: 400 }
+      );
+    }
+
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(body)) {
+      if (CLIENT_AUTH_PARAMS.includes(name)) continue;
+      for (const v of Array.isArray(value) ? value : [value]) {
+        if (typeof v === 'string') params.append(name, v);
+      }
+    }
+    params.set('client_id', client.client_id);
+
+    // §2.1: validated exactly as the authorization endpoint would
+    const validation = await validateAuthorizationRequest(db, params);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error, error_description: validation.error_description },
+        { status: validation.status }
+      );
+    }
+
+    const requestUri = `${REQUEST_URI_PREFIX}${generateRandomString(32)}`;
+    await createPushedAuthorizationRequest(db, {
+      requestUri,
+      clientId: client.client_id,
+      params: params.toString(),
+      expiresAt: new Date(Date.now() + PAR_EXPIRATION_SECONDS * 1000),
+    });
+
+    return NextResponse.json(
+      { request_uri: requestUri, expires_in: PAR_EXPIRATION_SECONDS },
+      { status: 201, headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[PAR] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to process pushed authorization request' },
+      { status: 500 }
+    );
+  }
+}
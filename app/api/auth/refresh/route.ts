@@ -1,10 +1,11 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT, createAccessToken, createRefreshToken } from '@/lib/jwt';
+import { verifyJWT, getSessionAudience, createAccessToken, createRefreshToken } from '@/lib/jwt';
 import { hashString, generateUUID } from '@/lib/webcrypto';
-import { getRefreshTokenByHash, revokeRefreshToken, createRefreshToken as storeRefreshToken } from '@/lib/db';
+import { getRefreshTokenByHash, claimRefreshToken, createRefreshToken as storeRefreshToken } from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
+import { detectRefreshTokenReuse } from '@/lib/refresh-token-reuse';
 
 /**
  * POST /api/auth/refresh
@@ -23,7 +24,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify refresh token
-    const payload = await verifyJWT(refreshToken);
+    const payload = await verifyJWT(refreshToken, { audience: getSessionAudience() });
 
     if (!payload || payload.type !== 'refresh') {
       return NextResponse.json(
@@ -33,11 +34,23 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if refresh token is in database and not revoked
+    let storedToken: any = null;
     try {
       const db = await getDatabase();
       const tokenHash = await hashString(refreshToken);
-      const storedToken = await getRefreshTokenByHash(db, tokenHash);
+      storedToken = await getRefreshTokenByHash(db, tokenHash);
       if (!storedToken) {
+        await detectRefreshTokenReuse(db, request, tokenHash);
+        return NextResponse.json(
+          { error: 'Refresh token revoked or expired' },
+          { status: 401 }
+        );
+      }
+
+      // Single use: only the request that revokes the token may rotate it
+      const claimed = await claimRefreshToken(db, tokenHash);
+      if (claimed.meta.changes !== 1) {
+        await detectRefreshTokenReuse(db, request, tokenHash, { lostRotation: true });
         return NextResponse.json(
           { error: 'Refresh token revoked or expired' },
           { status: 401 }
@@ -58,17 +71,17 @@ export async function POST(request: NextRequest) {
     // Rotate refresh token
     const newRefreshToken = await createRefreshToken(payload.sub, payload.provider);
 
-    // Store new refresh token and revoke old one
+    // Store new refresh token (the old one was revoked when claimed)
     try {
       const db = await getDatabase();
-      const oldTokenHash = await hashString(refreshToken);
       const newTokenHash = await hashString(newRefreshToken);
 
-      await revokeRefreshToken(db, oldTokenHash);
       await storeRefreshToken(db, {
         id: generateUUID(),
         userId: payload.sub,
         tokenHash: newTokenHash,
+        // Stay in the family of the token being rotated
+        ...(storedToken && { familyId: storedToken.family_id || storedToken.id, parentId: storedToken.id, authTime: storedToken.auth_time }),
         expiresAt: new Date(Date.now() + parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS || '30') * 24 * 60 * 60 * 1000),
       });
     } catch (error) {
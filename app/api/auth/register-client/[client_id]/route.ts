@@ -0,0 +1,149 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { D1Database } from '@cloudflare/workers-types';
+import { hashString, timingSafeEqual } from '@/lib/webcrypto';
+import { getOAuthClientByIdWithSecret, listActiveOAuthClientSecrets, updateOAuthClient } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { parseClientMetadata, registrationError, toClientInformation } from '@/lib/client-registration';
+import { getIssuer } from '@/lib/oidc';
+
+/**
+ * Authenticate an RFC 7592 request by its registration access token.
+ * Unknown clients and bad tokens both get 401 so client ids cannot be probed (§2).
+ */
+async function authenticateRegistration(
+  request: NextRequest,
+  db: D1Database,
+  clientId: string
+): Promise<{ client: any; error: null } | { client: null; error: NextResponse }> {
+  const invalidToken = { client: null, error: registrationError('invalid_token', 'Invalid registration access token', 401) } as const;
+
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return invalidToken;
+
+  const client = await getOAuthClientByIdWithSecret(db, clientId) as any;
+  if (!client || !client.is_active || !client.registration_access_token_hash) return invalidToken;
+
+  const tokenHash = await hashString(authHeader.substring(7));
+  if (!timingSafeEqual(tokenHash, client.registration_access_token_hash)) return invalidToken;
+
+  return { client, error: null };
+}
+
+/**
+ * GET /api/auth/register-client/[client_id]
+ *
+ * Read the current client configuration (RFC 7592 §2.1)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_id: string }> }
+) {
+  try {
+    const { client_id } = await params;
+    const db = await getDatabase();
+
+    const { client, error } = await authenticateRegistration(request, db, client_id);
+    if (error) return error;
+
+    return NextResponse.json(
+      toClientInformation(client, getIssuer()),
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[Client Management] Read error:', error);
+    return registrationError('server_error', 'Failed to read client', 500);
+  }
+}
+
+/**
+ * PUT /api/auth/register-client/[client_id]
+ *
+ * Replace the client metadata (RFC 7592 §2.2). Omitted optional fields reset to
+ * their defaults. Switching between public and confidential is not allowed.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_id: string }> }
+) {
+  try {
+    const { client_id } = await params;
+    const db = await getDatabase();
+
+    const { client, error: authError } = await authenticateRegistration(request, db, client_id);
+    if (authError) return authError;
+
+    const body: any = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return registrationError('invalid_client_metadata', 'Request body must be a JSON object');
+    }
+    if (body.client_id !== client_id) {
+      return registrationError('invalid_client_metadata', 'client_id in the body must match the request URL');
+    }
+
+    const { metadata, error } = await parseClientMetadata(db, body);
+    if (!metadata) return error;
+
+    if ((metadata.tokenEndpointAuthMethod === 'none') !== !!client.is_public) {
+      return registrationError('invalid_client_metadata', 'token_endpoint_auth_method cannot switch between public and confidential');
+    }
+    // A client registered with keys has no secret to fall back on
+    if (metadata.tokenEndpointAuthMethod.startsWith('client_secret_') && (await listActiveOAuthClientSecrets(db, client_id)).length === 0) {
+      return registrationError('invalid_client_metadata', 'Client has no secret; register a new client to use secret authentication');
+    }
+
+    await updateOAuthClient(db, client_id, {
+      name: metadata.clientName,
+      redirectUris: JSON.stringify(metadata.redirectUris),
+      postLogoutRedirectUris: JSON.stringify(metadata.postLogoutRedirectUris),
+      backchannelLogoutUri: metadata.backchannelLogoutUri ?? null,
+      requirePushedAuthorizationRequests: metadata.requirePushedAuthorizationRequests,
+      scopes: JSON.stringify(metadata.scopes),
+      homepageUrl: metadata.clientUri ?? '',
+      logoUrl: metadata.logoUri ?? '',
+      applicationType: metadata.applicationType,
+      grantTypes: JSON.stringify(metadata.grantTypes),
+      tokenEndpointAuthMethod: metadata.tokenEndpointAuthMethod,
+      jwksUri: metadata.jwksUri ?? null,
+      jwks: metadata.jwks ?? null,
+    });
+
+    const updated = await getOAuthClientByIdWithSecret(db, client_id);
+
+    return NextResponse.json(
+      toClientInformation(updated, getIssuer()),
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[Client Management] Update error:', error);
+    return registrationError('server_error', 'Failed to update client', 500);
+  }
+}
+
+/**
+ * DELETE /api/auth/register-client/[client_id]
+ *
+ * Deprovision the client (RFC 7592 §2.3). Like deleting from the dashboard, the
+ * client is deactivated; its registration access token stops working.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ client_id: string }> }
+) {
+  try {
+    const { client_id } = await params;
+    const db = await getDatabase();
+
+    const { error } = await authenticateRegistration(request, db, client_id);
+    if (error) return error;
+
+    await updateOAuthClient(db, client_id, { isActive: false, registrationAccessTokenHash: null });
+    console.log(`[Client Management] Deprovisioned client ${client_id}`);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('[Client Management] Delete error:', error);
+    return registrationError('server_error', 'Failed to delete client', 500);
+  }
+}
@@ -0,0 +1,122 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generateRandomString, hashString, timingSafeEqual } from '@/lib/webcrypto';
+import { createOAuthClient, getOAuthClientByIdWithSecret } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { validateApiKeyMiddleware } from '@/lib/api-auth-middleware';
+import { addInitialClientSecret, generateClientSecret } from '@/lib/client-secrets';
+import { parseClientMetadata, registrationError, toClientInformation } from '@/lib/client-registration';
+import { getIssuer } from '@/lib/oidc';
+
+/**
+ * Resolve who will own the registered client. The operator-configured initial
+ * access token registers clients for OAUTH_REGISTRATION_OWNER_ID; anything else
+ * must be an API key with apps:write, and the key's user owns the client.
+ */
+async function resolveRegistrationOwner(
+  request: NextRequest
+): Promise<{ ownerId: string; error: null } | { ownerId: null; error: NextResponse }> {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return { ownerId: null, error: registrationError('invalid_token', 'An initial access token or API key is required', 401) };
+  }
+
+  const initialAccessToken = process.env.OAUTH_REGISTRATION_INITIAL_ACCESS_TOKEN;
+  if (initialAccessToken && timingSafeEqual(authHeader.substring(7), initialAccessToken)) {
+    const ownerId = process.env.OAUTH_REGISTRATION_OWNER_ID;
+    if (!ownerId) {
+      console.error('[Client Registration] OAUTH_REGISTRATION_OWNER_ID is not configured');
+      return { ownerId: null, error: registrationError('server_error', 'Registration is not configured', 500) };
+    }
+    return { ownerId, error: null };
+  }
+
+  const { context, error } = await validateApiKeyMiddleware(request, ['apps:write']);
+  if (!context) {
+    return { ownerId: null, error: error || registrationError('invalid_token', 'Invalid API key', 401) };
+  }
+  return { ownerId: context.userId, error: null };
+}
+
+/**
+ * POST /api/auth/register-client
+ *
+ * OAuth 2.0 Dynamic Client Registration (RFC 7591)
+ *
+ * Request Headers:
+ * - Authorization: Bearer <initial access token | API key with apps:write>
+ *
+ * Request body (client metadata, RFC 7591 §2):
+ * {
+ *   "redirect_uris": ["https://preview-123.example.com/callback"],
+ *   "post_logout_redirect_uris": ["https://preview-123.example.com/"], (optional)
+ *   "backchannel_logout_uri": "https://preview-123.example.com/backchannel-logout", (optional)
+ *   "require_pushed_authorization_requests": true, (optional; RFC 9126)
+ *   "client_name": "Preview 123",
+ *   "logo_uri": "https://example.com/logo.png", (optional)
+ *   "grant_types": ["authorization_code", "refresh_token"], (optional)
+ *   "token_endpoint_auth_method": "client_secret_basic" | "client_secret_post" | "private_key_jwt" | "none", (optional)
+ *   "jwks_uri": "https://example.com/jwks.json", (private_key_jwt; or inline "jwks")
+ *   "scope": "openid profile email" (optional)
+ * }
+ *
+ * The response carries client_secret (secret-based clients) and a
+ * registration_access_token for /api/auth/register-client/[client_id].
+ * Neither can be retrieved again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { ownerId, error: authError } = await resolveRegistrationOwner(request);
+    if (authError) return authError;
+
+    const body: any = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return registrationError('invalid_client_metadata', 'Request body must be a JSON object');
+    }
+
+    const db = await getDatabase();
+    const { metadata, error } = await parseClientMetadata(db, body);
+    if (!metadata) return error;
+
+    const isPublic = metadata.tokenEndpointAuthMethod === 'none';
+    const usesSecret = metadata.tokenEndpointAuthMethod.startsWith('client_secret_');
+    const clientId = `cli_${generateRandomString(32)}`;
+    const clientSecret = usesSecret ? generateClientSecret() : undefined;
+    const registrationAccessToken = `rat_${generateRandomString(32)}`;
+
+    await createOAuthClient(db, {
+      clientId,
+      name: metadata.clientName,
+      redirectUris: JSON.stringify(metadata.redirectUris),
+      scopes: JSON.stringify(metadata.scopes),
+      ownerId,
+      homepageUrl: metadata.clientUri,
+      logoUrl: metadata.logoUri,
+      isPublic,
+      applicationType: metadata.applicationType,
+      grantTypes: JSON.stringify(metadata.grantTypes),
+      tokenEndpointAuthMethod: metadata.tokenEndpointAuthMethod,
+      jwksUri: metadata.jwksUri,
+      jwks: metadata.jwks,
+      postLogoutRedirectUris: JSON.stringify(metadata.postLogoutRedirectUris),
+      backchannelLogoutUri: metadata.backchannelLogoutUri,
+      requirePushedAuthorizationRequests: metadata.requirePushedAuthorizationRequests,
+      registrationAccessTokenHash: await hashString(registrationAccessToken),
+    });
+    if (clientSecret) {
+      await addInitialClientSecret(db, clientId, clientSecret);
+    }
+    console.log(`[Client Registration] Registered: ${metadata.clientName} (${clientId}) for owner ${ownerId}`);
+
+    const client = await getOAuthClientByIdWithSecret(db, clientId);
+
+    return NextResponse.json(
+      toClientInformation(client, getIssuer(), { clientSecret, registrationAccessToken }),
+      { status: 201, headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[Client Registration] Error:', error);
+    return registrationError('server_error', 'Failed to register client', 500);
+  }
+}
@@ -0,0 +1,72 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, ANY_AUDIENCE } from '@/lib/jwt';
+import { hashString } from '@/lib/webcrypto';
+import { getRefreshTokenByHash, revokeRefreshToken, revokeRefreshTokenGrant } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { authenticateClient, parseOAuthRequestBody } from '@/lib/client-auth';
+
+/**
+ * POST /api/auth/revoke
+ *
+ * OAuth 2.0 Token Revocation (RFC 7009)
+ *
+ * Confidential clients authenticate with HTTP Basic or client_id/client_secret in
+ * the body; public clients send only client_id.
+ *
+ * Request body (form-encoded or JSON):
+ *   token=<refresh or access token>
+ *   token_type_hint=refresh_token|access_token (optional)
+ *
+ * Revoking a refresh token also revokes every other refresh token issued from the
+ * same grant. Access tokens are stateless JWTs and simply run out their short
+ * lifetime. Per §2.2, unknown or already-invalid tokens still return 200.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await parseOAuthRequestBody(request);
+    const db = await getDatabase();
+
+    const { client, error } = await authenticateClient(db, request, body, { allowPublic: true });
+    if (error) return error;
+
+    const { token, token_type_hint } = body;
+    if (!token) {
+      return NextResponse.json(
+        { error: 'invalid_request', error_description: 'token is required' },
+        { status: 400 }
+      );
+    }
+
+    if (token_type_hint && !['refresh_token', 'access_token'].includes(token_type_hint)) {
+      return NextResponse.json(
+        { error: 'unsupported_token_type', error_description: `token_type_hint '${token_type_hint}' is not supported` },
+        { status: 400 }
+      );
+    }
+
+    const payload = await verifyJWT(token, { audience: ANY_AUDIENCE });
+    if (payload?.type === 'refresh') {
+      const tokenHash = await hashString(token);
+      const tokenRecord = await getRefreshTokenByHash(db, tokenHash) as any;
+
+      // Only the client the token was issued to may revoke it
+      if (tokenRecord && tokenRecord.client_id === client.client_id) {
+        await revokeRefreshToken(db, tokenHash);
+        if (tokenRecord.grant_id) {
+          await revokeRefreshTokenGrant(db, tokenRecord.grant_id);
+        }
+        console.log(`[Revoke] Revoked refresh token grant for client ${client.client_id}`);
+      }
+    }
+
+    return new NextResponse(null, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('[Revoke] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to revoke token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import {
+  getOAuthScope,
+  getOAuthClientById,
+  listClientScopeGrants,
+  createClientScopeGrant,
+  deleteClientScopeGrant,
+} from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+
+async function getAuth(request: NextRequest) {
+  const token =
+    request.cookies.get('access_token')?.value ||
+    request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
+  if (!payload || payload.type !== 'access') return null;
+  return payload;
+}
+
+/** The scope, if `userId` owns it; otherwise the error response */
+async function getOwnedScope(db: Awaited<ReturnType<typeof getDatabase>>, name: string, userId: string) {
+  const scope = await getOAuthScope(db, name) as any;
+  if (!scope) {
+    return { error: NextResponse.json({ error: 'Scope not found' }, { status: 404 }) };
+  }
+  if (scope.owner_id !== userId) {
+    return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+  return { scope };
+}
+
+/**
+ * GET /api/auth/scopes/[name]/clients
+ *
+ * Clients the scope's owner approved to carry the scope in their own app
+ * tokens (client_credentials)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await getAuth(request);
+  if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  try {
+    const { name } = await params;
+    const db = await getDatabase();
+
+    const { error } = await getOwnedScope(db, name, auth.sub);
+    if (error) return error;
+
+    const grants = await listClientScopeGrants(db, name);
+    return NextResponse.json({ clients: grants });
+  } catch (error) {
+    console.error('[Scopes] Client approvals list error:', error);
+    return NextResponse.json({ error: 'Failed to fetch approved clients' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/auth/scopes/[name]/clients
+ *
+ * Approve a client to use the scope for client_credentials tokens. The client
+ * still has to list the scope in its own registration.
+ *
+ * Request body: { "client_id": "..." }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await getAuth(request);
+  if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  try {
+    const { name } = await params;
+    const body: any = await request.json().catch(() => ({}));
+    const clientId = typeof body.client_id === 'string' ? body.client_id.trim() : '';
+    if (!clientId) {
+      return NextResponse.json({ error: 'client_id is required' }, { status: 400 });
+    }
+
+    const db = await getDatabase();
+
+    const { error } = await getOwnedScope(db, name, auth.sub);
+    if (error) return error;
+
+    const client = await getOAuthClientById(db, clientId) as any;
+    if (!client) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    await createClientScopeGrant(db, { scope: name, clientId, approvedBy: auth.sub });
+    console.log(`[Scopes] ${name} approved for client ${clientId}`);
+
+    return NextResponse.json({ clients: await listClientScopeGrants(db, name) }, { status: 201 });
+  } catch (error) {
+    console.error('[Scopes] Client approval error:', error);
+    return NextResponse.json({ error: 'Failed to approve client' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/auth/scopes/[name]/clients?client_id=...
+ *
+ * Withdraw a client's approval. Tokens already issued keep the scope until they expire.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await getAuth(request);
+  if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  try {
+    const { name } = await params;
+    const clientId = request.nextUrl.searchParams.get('client_id');
+    if (!clientId) {
+      return NextResponse.json({ error: 'client_id is required' }, { status: 400 });
+    }
+
+    const db = await getDatabase();
+
+    const { error } = await getOwnedScope(db, name, auth.sub);
+    if (error) return error;
+
+    await deleteClientScopeGrant(db, name, clientId);
+    console.log(`[Scopes] ${name} approval withdrawn for client ${clientId}`);
+
+    return NextResponse.json({ clients: await listClientScopeGrants(db, name) });
+  } catch (error) {
+    console.error('[Scopes] Client approval withdraw error:', error);
+    return NextResponse.json({ error: 'Failed to withdraw approval' }, { status: 500 });
+  }
+}
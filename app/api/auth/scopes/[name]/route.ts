@@ -0,0 +1,80 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { getOAuthScope, updateOAuthScope } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { SCOPE_SENSITIVITIES } from '@/lib/scopes';
+
+async function getAuth(request: NextRequest) {
+  const token =
+    request.cookies.get('access_token')?.value ||
+    request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
+  if (!payload || payload.type !== 'access') return null;
+  return payload;
+}
+
+/**
+ * PUT /api/auth/scopes/[name]
+ *
+ * Update an API scope's description, sensitivity or active state.
+ * Built-in OpenID Connect scopes cannot be changed.
+ *
+ * Request body (all optional):
+ * { "description": "...", "sensitivity": "medium", "is_active": false }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await getAuth(request);
+  if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  try {
+    const { name } = await params;
+    const body: any = await request.json().catch(() => ({}));
+    const { description, sensitivity, is_active } = body;
+
+    const db = await getDatabase();
+
+    // Verify ownership
+    const scope = await getOAuthScope(db, name) as any;
+    if (!scope) {
+      return NextResponse.json({ error: 'Scope not found' }, { status: 404 });
+    }
+    if (scope.owner_id !== auth.sub) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (description !== undefined && (typeof description !== 'string' || !description.trim() || description.length > 200)) {
+      return NextResponse.json({ error: 'description must be 1-200 characters' }, { status: 400 });
+    }
+    if (sensitivity !== undefined && !SCOPE_SENSITIVITIES.includes(sensitivity)) {
+      return NextResponse.json(
+        { error: `sensitivity must be one of: ${SCOPE_SENSITIVITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await updateOAuthScope(db, name, {
+      ...(description !== undefined && { description: description.trim() }),
+      ...(sensitivity !== undefined && { sensitivity }),
+      ...(is_active !== undefined && { isActive: Boolean(is_active) }),
+    });
+
+    const updated = await getOAuthScope(db, name) as any;
+    return NextResponse.json({
+      name,
+      description: updated.description,
+      sensitivity: updated.sensitivity,
+      is_active: Boolean(updated.is_active),
+      built_in: false,
+      owned: true,
+    });
+  } catch (error) {
+    console.error('[Scopes] Update error:', error);
+    return NextResponse.json({ error: 'Failed to update scope' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import { createOAuthScope, getActiveOAuthScopes, getOAuthScope, getScopeNamespaceOwner, listOAuthScopes } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { SCOPE_SENSITIVITIES, getScopeNamespace, isValidCustomScopeName } from '@/lib/scopes';
+
+async function getAuth(request: NextRequest) {
+  const token =
+    request.cookies.get('access_token')?.value ||
+    request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
+  if (!payload || payload.type !== 'access') return null;
+  return payload;
+}
+
+/**
+ * GET /api/auth/scopes
+ *
+ * The scope registry. With ?scope=<space-separated names> (used by the consent
+ * screen), returns only those active scopes with their descriptions.
+ * Otherwise returns every active scope plus the caller's own disabled ones,
+ * each flagged with whether the caller owns it.
+ */
+export async function GET(request: NextRequest) {
+  const auth = await getAuth(request);
+  if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  try {
+    const db = await getDatabase();
+
+    const requested = request.nextUrl.searchParams.get('scope');
+    if (requested !== null) {
+      const scopes = await getActiveOAuthScopes(db, requested.split(' ').filter(Boolean));
+      return NextResponse.json({ scopes });
+    }
+
+    const scopes = (await listOAuthScopes(db) as any[])
+      .filter((s) => s.is_active || s.owner_id === auth.sub)
+      .map((s) => ({
+        name: s.name,
+        description: s.description,
+        sensitivity: s.sensitivity,
+        is_active: Boolean(s.is_active),
+        built_in: !s.owner_id,
+        owned: s.owner_id === auth.sub,
+        created_at: s.created_at,
+      }));
+
+    return NextResponse.json({ scopes });
+  } catch (error) {
+    console.error('[Scopes] List error:', error);
+    return NextResponse.json({ error: 'Failed to fetch scopes' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/auth/scopes
+ *
+ * Define an API scope for a resource server.
+ *
+ * Request body:
+ * {
+ *   "name": "billing:read",
+ *   "description": "View your invoices and payment history",
+ *   "sensitivity": "low" | "medium" | "high" (optional, default low)
+ * }
+ *
+ * The first scope in a namespace (the part before ':') claims it: only the
+ * same owner can define further scopes in that namespace.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await getAuth(request);
+  if (!auth) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  try {
+    const body: any = await request.json().catch(() => ({}));
+    const { name, description, sensitivity = 'low' } = body;
+
+    if (typeof name !== 'string' || !isValidCustomScopeName(name)) {
+      return NextResponse.json(
+        { error: 'name must look like "namespace:action" using lowercase letters, digits, _ - and .' },
+        { status: 400 }
+      );
+    }
+    if (typeof description !== 'string' || !description.trim() || description.length > 200) {
+      return NextResponse.json({ error: 'description is required (up to 200 characters)' }, { status: 400 });
+    }
+    if (!SCOPE_SENSITIVITIES.includes(sensitivity)) {
+      return NextResponse.json(
+        { error: `sensitivity must be one of: ${SCOPE_SENSITIVITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+
+    if (await getOAuthScope(db, name)) {
+      return NextResponse.json({ error: 'Scope already exists' }, { status: 409 });
+    }
+
+    const namespaceOwner = await getScopeNamespaceOwner(db, getScopeNamespace(name));
+    if (namespaceOwner && namespaceOwner !== auth.sub) {
+      return NextResponse.json(
+        { error: `The "${getScopeNamespace(name)}" namespace belongs to another resource server` },
+        { status: 403 }
+      );
+    }
+
+    await createOAuthScope(db, { name, description: description.trim(), sensitivity, ownerId: auth.sub });
+    console.log(`[Scopes] Defined ${name} for owner ${auth.sub}`);
+
+    return NextResponse.json(
+      { name, description: description.trim(), sensitivity, is_active: true, built_in: false, owned: true },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[Scopes] Create error:', error);
+    return NextResponse.json({ error: 'Failed to create scope' }, { status: 500 });
+  }
+}
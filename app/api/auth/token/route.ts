@@ -1,15 +1,138 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { hashString, generateUUID } from '@/lib/webcrypto';
-import { verifyJWT, createAccessToken, createRefreshToken } from '@/lib/jwt';
-import { getOAuthClientByIdWithSecret, validateOAuthClient, getRefreshTokenByHash, revokeRefreshToken, createRefreshToken as storeRefreshToken, getUserById } from '@/lib/db';
+import type { D1Database } from '@cloudflare/workers-types';
+import { hashString, generateUUID, verifyPKCE } from '@/lib/webcrypto';
+import { verifyJWT, getTokenEndpointAudience, findReservedResource, ANY_AUDIENCE, createAccessToken, createRefreshToken, createIdToken, createClientAccessToken, type ActorClaim } from '@/lib/jwt';
+import { getRefreshTokenByHash, claimRefreshToken, createRefreshToken as storeRefreshToken, getUserById, getDeviceCodeByDeviceCode, logAuditEvent } from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
+import { ACCESS_TOKEN_TYPE, TOKEN_EXCHANGE_GRANT_TYPE, findInvalidResource, getIssuer, getResourceParams, getUserClaims, toEpochSeconds } from '@/lib/oidc';
+import { authenticateClient, parseOAuthRequestBody } from '@/lib/client-auth';
+import { findUnavailableClientScopes } from '@/lib/scopes';
+import { detectRefreshTokenReuse } from '@/lib/refresh-token-reuse';
+import { detectAuthorizationCodeReplay } from '@/lib/auth-code-replay';
+import { getApplicationType, matchesRegisteredRedirectUri } from '@/lib/redirect-uri';
+import { getAccessTokenTtlMinutes, getRefreshTokenExpiryMode, getRefreshTokenTtlDays, isGrantTypeAllowed } from '@/lib/token-lifetimes';
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+/**
+ * RFC 8707 §2.2: resources named at the token endpoint must be among those the
+ * grant was authorized for. Grants made without resource indicators accept any.
+ * Returns the access token's audience, or null when a resource isn't covered.
+ */
+function narrowResources(requested: string[], granted: string[]): string[] | null {
+  if (requested.length === 0) return granted;
+  if (granted.length > 0 && requested.some((r) => !granted.includes(r))) return null;
+  return requested;
+}
+
+function invalidTargetResponse() {
+  return NextResponse.json(
+    { error: 'invalid_target', error_description: 'Requested resource is not authorized for this grant' },
+    { status: 400 }
+  );
+}
+
+function unauthorizedGrantTypeResponse(grantType: string) {
+  return NextResponse.json(
+    { error: 'unauthorized_client', error_description: `Client is not allowed to use the ${grantType} grant` },
+    { status: 400 }
+  );
+}
+
+/**
+ * Access + refresh token pair (and an ID token when openid was granted) for a
+ * user who has approved `client`, with the client's token lifetimes. No
+ * refresh token when the client may not use the refresh_token grant.
+ * Shared by the code and device grants.
+ */
+async function issueUserTokens(
+  request: NextRequest,
+  db: D1Database,
+  { user, client, scopes, authTime, nonce, resources, audience, authRequestId, sessionId }: {
+    user: any;
+    client: any;
+    scopes: string[];
+    authTime: number;
+    nonce?: string;
+    /** Resources the grant covers, carried by the refresh token */
+    resources: string[];
+    /** Resources this access token is for */
+    audience: string[];
+    /** The redeemed authorization code's auth request, so a replay can revoke these tokens */
+    authRequestId?: string;
+    /** The accounts session the grant was approved in, so signing out of it ends the grant */
+    sessionId?: string | null;
+  }
+) {
+  const clientId: string = client.client_id;
+  const accessTokenMinutes = getAccessTokenTtlMinutes(client);
+  const accessToken = await createAccessToken(
+    user.id,
+    user.email,
+    'email',
+    accessTokenMinutes,
+    false,
+    { scope: scopes.join(' '), clientId, resources: audience }
+  );
+
+  const grantId = generateUUID();
+  let refreshTokenJWT: string | undefined;
+  if (isGrantTypeAllowed(client, 'refresh_token')) {
+    const refreshTokenDays = getRefreshTokenTtlDays(client);
+    refreshTokenJWT = await createRefreshToken(
+      user.id,
+      'email',
+      refreshTokenDays,
+      { scope: scopes.join(' '), clientId, resources }
+    );
+
+    // Store refresh token
+    const refreshTokenHash = await hashString(refreshTokenJWT);
+    await storeRefreshToken(db, {
+      id: generateUUID(),
+      userId: user.id,
+      tokenHash: refreshTokenHash,
+      clientId,
+      grantId,
+      authRequestId,
+      sessionId,
+      authTime,
+      expiresAt: new Date(Date.now() + refreshTokenDays * 24 * 60 * 60 * 1000),
+    });
+  }
+
+  // OpenID Connect: issue an ID token when the openid scope was granted
+  let idToken: string | undefined;
+  if (scopes.includes('openid')) {
+    idToken = await createIdToken({
+      issuer: getIssuer(),
+      clientId,
+      userId: user.id,
+      authTime,
+      nonce,
+      sessionId: grantId,
+      claims: await getUserClaims(db, user.id, scopes),
+      expiresInMinutes: accessTokenMinutes,
+    });
+  }
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: accessTokenMinutes * 60,
+    ...(refreshTokenJWT && { refresh_token: refreshTokenJWT }),
+    scope: scopes.join(' '),
+    ...(idToken && { id_token: idToken }),
+  };
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body: any = await request.json();
-    const { grant_type, code, client_id, client_secret, redirect_uri, refresh_token, scope } = body;
+    // RFC 6749 §3.2: form-encoded; JSON bodies are still accepted for existing integrations
+    const body = await parseOAuthRequestBody(request);
+    const { grant_type, code, redirect_uri, refresh_token, scope, code_verifier } = body;
 
     if (!grant_type) {
       return NextResponse.json(
@@ -18,11 +141,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // RFC 8707 resource indicators: the resource servers the access token is for.
+    // Checked here for every grant, as /oauth/authorize and PAR check them.
+    const requestedResources = getResourceParams(body.resource);
+    const invalidResource = findInvalidResource(requestedResources);
+    if (invalidResource) {
+      return NextResponse.json(
+        { error: 'invalid_target', error_description: `Invalid resource: ${invalidResource}` },
+        { status: 400 }
+      );
+    }
+    const reservedResource = findReservedResource(requestedResources);
+    if (reservedResource) {
+      return NextResponse.json(
+        { error: 'invalid_target', error_description: `Resource is reserved for first-party tokens: ${reservedResource}` },
+        { status: 400 }
+      );
+    }
+
     // Authorization Code Flow (RFC 6749 Section 4.1)
     if (grant_type === 'authorization_code') {
-      if (!code || !client_id || !client_secret || !redirect_uri) {
+      if (!code || !redirect_uri) {
         return NextResponse.json(
-          { error: 'invalid_request', error_description: 'Missing required parameters: code, client_id, client_secret, redirect_uri' },
+          { error: 'invalid_request', error_description: 'Missing required parameters: code, redirect_uri' },
           { status: 400 }
         );
       }
@@ -30,28 +171,15 @@ export async function POST(request: NextRequest) {
       const db = await getDatabase();
 
       try {
-        // 1. Fetch OAuth client and verify secret
-        const client = await getOAuthClientByIdWithSecret(db, client_id);
-        if (!client) {
-          return NextResponse.json(
-            { error: 'invalid_client', error_description: 'Client not found' },
-            { status: 401 }
-          );
-        }
+        // 1-2. Authenticate the client (public clients have no secret and rely on PKCE instead)
+        const { client, error: clientError } = await authenticateClient(db, request, body, { allowPublic: true });
+        if (clientError) return clientError;
+        const client_id: string = client.client_id;
+        if (!isGrantTypeAllowed(client, grant_type)) return unauthorizedGrantTypeResponse(grant_type);
 
-        // 2. Verify client_secret
-        const clientSecretHash = await hashString(client_secret);
-        const isValidSecret = await validateOAuthClient(db, client_id, clientSecretHash);
-        if (!isValidSecret) {
-          return NextResponse.json(
-            { error: 'invalid_client', error_description: 'Invalid client credentials' },
-            { status: 401 }
-          );
-        }
-
-        // 3. Verify redirect_uri matches
-        const redirectUris = JSON.parse((client as any).redirect_uris || '[]');
-        if (!redirectUris.includes(redirect_uri)) {
+        // 3. Verify redirect_uri matches (native loopback redirects on any port)
+        const redirectUris = JSON.parse(client.redirect_uris || '[]');
+        if (!matchesRegisteredRedirectUri(redirectUris, redirect_uri, getApplicationType(client))) {
           return NextResponse.json(
             { error: 'invalid_grant', error_description: 'redirect_uri does not match' },
             { status: 400 }
@@ -64,6 +192,7 @@ export async function POST(request: NextRequest) {
         ).bind(code, client_id).first() as any;
 
         if (!authRequest) {
+          await detectAuthorizationCodeReplay(db, request, code, client_id);
           return NextResponse.json(
             { error: 'invalid_grant', error_description: 'Authorization code not found, expired, or already used' },
             { status: 400 }
@@ -78,8 +207,37 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        // 5. Mark code as used (single-use)
-        await db.prepare('UPDATE auth_requests SET used = 1 WHERE code = ?').bind(code).run();
+        // PKCE (RFC 7636 §4.6): the verifier must hash to the challenge sent to /oauth/authorize
+        if (authRequest.code_challenge) {
+          if (!code_verifier) {
+            return NextResponse.json(
+              { error: 'invalid_grant', error_description: 'code_verifier is required' },
+              { status: 400 }
+            );
+          }
+          const isValidVerifier = await verifyPKCE(code_verifier, authRequest.code_challenge, authRequest.code_challenge_method);
+          if (!isValidVerifier) {
+            return NextResponse.json(
+              { error: 'invalid_grant', error_description: 'code_verifier does not match code_challenge' },
+              { status: 400 }
+            );
+          }
+        } else if (client.is_public) {
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'Public clients must use PKCE' },
+            { status: 400 }
+          );
+        }
+
+        // 5. Mark code as used (single-use); losing the race to a concurrent redemption is a replay
+        const marked = await db.prepare('UPDATE auth_requests SET used = 1 WHERE code = ? AND used = 0').bind(code).run();
+        if (!marked.meta.changes) {
+          await detectAuthorizationCodeReplay(db, request, code, client_id);
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'Authorization code not found, expired, or already used' },
+            { status: 400 }
+          );
+        }
 
         // 6. Get the actual user from DB
         const userId = authRequest.user_id;
@@ -98,35 +256,33 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const scopes = (scope || authRequest.scopes || 'openid profile email').split(' ');
-
-        const accessToken = await createAccessToken(
-          userId,
-          user.email,
-          'email',
-          parseInt(process.env.JWT_EXPIRATION_MINUTES || '15'),
-          !!(user.is_admin)
-        );
-        const refreshTokenJWT = await createRefreshToken(userId, 'email');
+        // The user consented to the authorization request's scopes; the token request may only narrow them
+        const consentedScopes: string[] = (authRequest.scopes || 'openid profile email').split(' ').filter(Boolean);
+        const scopes: string[] = scope ? scope.split(' ').filter(Boolean) : consentedScopes;
+        const unconsentedScopes = scopes.filter((s) => !consentedScopes.includes(s));
+        if (unconsentedScopes.length > 0) {
+          return NextResponse.json(
+            { error: 'invalid_scope', error_description: `Scopes not granted by the user: ${unconsentedScopes.join(', ')}` },
+            { status: 400 }
+          );
+        }
 
-        // Store refresh token
-        const refreshTokenHash = await hashString(refreshTokenJWT);
-        await storeRefreshToken(db, {
-          id: generateUUID(),
-          userId,
-          tokenHash: refreshTokenHash,
-          clientId: client_id,
-          expiresAt: new Date(Date.now() + parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS || '30') * 24 * 60 * 60 * 1000),
-        });
+        const authorizedResources: string[] = JSON.parse(authRequest.resources || '[]');
+        const audience = narrowResources(requestedResources, authorizedResources);
+        if (!audience) return invalidTargetResponse();
 
         return NextResponse.json(
-          {
-            access_token: accessToken,
-            token_type: 'Bearer',
-            expires_in: parseInt(process.env.JWT_EXPIRATION_MINUTES || '15') * 60,
-            refresh_token: refreshTokenJWT,
-            scope: scopes.join(' '),
-          },
+          await issueUserTokens(request, db, {
+            user,
+            client,
+            scopes,
+            authTime: authRequest.auth_time ?? Math.floor(Date.now() / 1000),
+            nonce: authRequest.nonce || undefined,
+            resources: authorizedResources.length ? authorizedResources : audience,
+            audience,
+            authRequestId: authRequest.id,
+            sessionId: authRequest.session_id,
+          }),
           { status: 200 }
         );
       } catch (error) {
@@ -140,9 +296,9 @@ export async function POST(request: NextRequest) {
 
     // Refresh Token Flow (RFC 6749 Section 6)
     if (grant_type === 'refresh_token') {
-      if (!refresh_token || !client_id) {
+      if (!refresh_token) {
         return NextResponse.json(
-          { error: 'invalid_request', error_description: 'Missing required parameters: refresh_token, client_id' },
+          { error: 'invalid_request', error_description: 'Missing required parameter: refresh_token' },
           { status: 400 }
         );
       }
@@ -150,7 +306,13 @@ export async function POST(request: NextRequest) {
       const db = await getDatabase();
 
       try {
-        const payload = await verifyJWT(refresh_token);
+        // §6: confidential clients authenticate; public clients identify themselves
+        const { client, error: clientError } = await authenticateClient(db, request, body, { allowPublic: true });
+        if (clientError) return clientError;
+        const client_id: string = client.client_id;
+        if (!isGrantTypeAllowed(client, grant_type)) return unauthorizedGrantTypeResponse(grant_type);
+
+        const payload = await verifyJWT(refresh_token, { audience: getTokenEndpointAudience() });
         if (!payload || payload.type !== 'refresh') {
           return NextResponse.json(
             { error: 'invalid_grant', error_description: 'Invalid or expired refresh token' },
@@ -161,43 +323,75 @@ export async function POST(request: NextRequest) {
         const refreshTokenHash = await hashString(refresh_token);
         const tokenRecord = await getRefreshTokenByHash(db, refreshTokenHash);
         if (!tokenRecord) {
+          await detectRefreshTokenReuse(db, request, refreshTokenHash);
           return NextResponse.json(
             { error: 'invalid_grant', error_description: 'Refresh token not found or revoked' },
             { status: 400 }
           );
         }
 
-        if ((tokenRecord as any).client_id && (tokenRecord as any).client_id !== client_id) {
+        if ((tokenRecord as any).client_id !== client_id) {
           return NextResponse.json(
-            { error: 'invalid_client', error_description: 'Client ID does not match token' },
-            { status: 401 }
+            { error: 'invalid_grant', error_description: 'Refresh token was not issued to this client' },
+            { status: 400 }
+          );
+        }
+
+        const grantedResources = payload.resource || [];
+        const audience = narrowResources(requestedResources, grantedResources);
+        if (!audience) return invalidTargetResponse();
+
+        // Single use: only the request that revokes the token may rotate it
+        const claimed = await claimRefreshToken(db, refreshTokenHash);
+        if (claimed.meta.changes !== 1) {
+          await detectRefreshTokenReuse(db, request, refreshTokenHash, { lostRotation: true });
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'Refresh token not found or revoked' },
+            { status: 400 }
           );
         }
 
         // Get fresh user data
         const user = await getUserById(db, payload.sub) as any;
-        const isAdmin = user ? !!(user.is_admin) : false;
         const email = user ? user.email : payload.email;
 
+        // Rotated tokens keep the scopes and resources granted with the original code
+        const accessTokenMinutes = getAccessTokenTtlMinutes(client);
         const newAccessToken = await createAccessToken(
           payload.sub,
           email,
           payload.provider,
-          parseInt(process.env.JWT_EXPIRATION_MINUTES || '15'),
-          isAdmin
+          accessTokenMinutes,
+          false,
+          { scope: payload.scope, clientId: client_id, resources: audience }
         );
 
-        const newRefreshToken = await createRefreshToken(payload.sub, payload.provider);
+        // Sliding expiry restarts the lifetime; absolute keeps the presented token's expiry
+        const refreshTokenExp = getRefreshTokenExpiryMode(client) === 'absolute'
+          ? payload.exp
+          : Math.floor(Date.now() / 1000) + getRefreshTokenTtlDays(client) * 24 * 60 * 60;
+        const refreshTokenExpiresAt = new Date(refreshTokenExp * 1000);
+        const newRefreshToken = await createRefreshToken(
+          payload.sub,
+          payload.provider,
+          refreshTokenExpiresAt,
+          { scope: payload.scope, clientId: client_id, resources: grantedResources }
+        );
         const newRefreshTokenHash = await hashString(newRefreshToken);
 
         try {
-          await revokeRefreshToken(db, refreshTokenHash);
           await storeRefreshToken(db, {
             id: generateUUID(),
             userId: payload.sub,
             tokenHash: newRefreshTokenHash,
             clientId: client_id,
-            expiresAt: new Date(Date.now() + parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS || '30') * 24 * 60 * 60 * 1000),
+            // Rotated tokens stay in the grant and family they were issued from
+            grantId: (tokenRecord as any).grant_id || generateUUID(),
+            familyId: (tokenRecord as any).family_id || (tokenRecord as any).grant_id,
+            parentId: (tokenRecord as any).id,
+            sessionId: (tokenRecord as any).session_id,
+            authTime: (tokenRecord as any).auth_time,
+            expiresAt: refreshTokenExpiresAt,
           });
         } catch (storageError) {
           console.error('[Token] Token rotation error:', storageError);
@@ -208,7 +402,8 @@ export async function POST(request: NextRequest) {
             access_token: newAccessToken,
             refresh_token: newRefreshToken,
             token_type: 'Bearer',
-            expires_in: parseInt(process.env.JWT_EXPIRATION_MINUTES || '15') * 60,
+            expires_in: accessTokenMinutes * 60,
+            ...(payload.scope && { scope: payload.scope }),
           },
           { status: 200 }
         );
@@ -221,12 +416,320 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Client Credentials Flow - not yet implemented
+    // Device Authorization Grant (RFC 8628 Section 3.4)
+    if (grant_type === DEVICE_CODE_GRANT_TYPE) {
+      if (!body.device_code) {
+        return NextResponse.json(
+          { error: 'invalid_request', error_description: 'Missing required parameter: device_code' },
+          { status: 400 }
+        );
+      }
+
+      const db = await getDatabase();
+
+      try {
+        const { client, error } = await authenticateClient(db, request, body, { allowPublic: true });
+        if (error) return error;
+        if (!isGrantTypeAllowed(client, grant_type)) return unauthorizedGrantTypeResponse(grant_type);
+
+        const deviceCode = await getDeviceCodeByDeviceCode(db, body.device_code, client.client_id) as any;
+        if (!deviceCode || deviceCode.used) {
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'Device code not found or already used' },
+            { status: 400 }
+          );
+        }
+
+        if (new Date(deviceCode.expires_at).getTime() <= Date.now()) {
+          return NextResponse.json(
+            { error: 'expired_token', error_description: 'Device code has expired' },
+            { status: 400 }
+          );
+        }
+
+        // §3.5: clients polling faster than the interval get slow_down and a longer interval
+        const lastPolledAt = toEpochSeconds(deviceCode.last_polled_at) ?? 0;
+        const pollingTooFast = Date.now() / 1000 - lastPolledAt < deviceCode.poll_interval;
+        await db.prepare(
+          `UPDATE device_codes SET last_polled_at = CURRENT_TIMESTAMP${pollingTooFast ? ', poll_interval = poll_interval + 5' : ''} WHERE id = ?`
+        ).bind(deviceCode.id).run();
+
+        if (pollingTooFast) {
+          return NextResponse.json(
+            { error: 'slow_down', error_description: 'Polling too frequently', interval: deviceCode.poll_interval + 5 },
+            { status: 400 }
+          );
+        }
+
+        if (deviceCode.status === 'denied') {
+          return NextResponse.json(
+            { error: 'access_denied', error_description: 'User denied access' },
+            { status: 400 }
+          );
+        }
+
+        if (deviceCode.status !== 'approved') {
+          return NextResponse.json(
+            { error: 'authorization_pending', error_description: 'User has not yet approved this device' },
+            { status: 400 }
+          );
+        }
+
+        // Single use: only the poll that flips `used` gets tokens
+        const claimed = await db.prepare(
+          'UPDATE device_codes SET used = 1 WHERE id = ? AND used = 0'
+        ).bind(deviceCode.id).run();
+        if (!claimed.meta.changes) {
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'Device code not found or already used' },
+            { status: 400 }
+          );
+        }
+
+        const user = await getUserById(db, deviceCode.user_id) as any;
+        if (!user || !user.is_active) {
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'User not found' },
+            { status: 400 }
+          );
+        }
+
+        return NextResponse.json(
+          await issueUserTokens(request, db, {
+            user,
+            client,
+            scopes: (deviceCode.scopes || 'openid profile email').split(' '),
+            authTime: deviceCode.auth_time ?? Math.floor(Date.now() / 1000),
+            resources: requestedResources,
+            audience: requestedResources,
+            sessionId: deviceCode.session_id,
+          }),
+          { status: 200, headers: { 'Cache-Control': 'no-store' } }
+        );
+      } catch (error) {
+        console.error('[Token] Device code flow error:', error);
+        return NextResponse.json(
+          { error: 'server_error', error_description: 'Failed to process token request' },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Token Exchange (RFC 8693): a narrower, re-audienced token for the same user,
+    // issued to a service acting on the user's behalf
+    if (grant_type === TOKEN_EXCHANGE_GRANT_TYPE) {
+      const { subject_token, subject_token_type, actor_token, actor_token_type, requested_token_type } = body;
+
+      if (!subject_token || !subject_token_type) {
+        return NextResponse.json(
+          { error: 'invalid_request', error_description: 'Missing required parameters: subject_token, subject_token_type' },
+          { status: 400 }
+        );
+      }
+      if (subject_token_type !== ACCESS_TOKEN_TYPE || (actor_token && actor_token_type !== ACCESS_TOKEN_TYPE)) {
+        return NextResponse.json(
+          { error: 'invalid_request', error_description: `Only ${ACCESS_TOKEN_TYPE} tokens can be exchanged` },
+          { status: 400 }
+        );
+      }
+      if (requested_token_type && requested_token_type !== ACCESS_TOKEN_TYPE) {
+        return NextResponse.json(
+          { error: 'invalid_request', error_description: `Only ${ACCESS_TOKEN_TYPE} tokens can be issued` },
+          { status: 400 }
+        );
+      }
+
+      const db = await getDatabase();
+
+      try {
+        // Only confidential clients may act on a user's behalf
+        const { client, error } = await authenticateClient(db, request, body);
+        if (error) return error;
+        if (!isGrantTypeAllowed(client, grant_type)) return unauthorizedGrantTypeResponse(grant_type);
+
+        // The admin-set policy names the audiences this client may exchange for
+        const allowedAudiences: string[] = JSON.parse(client.token_exchange_audiences || '[]');
+        if (allowedAudiences.length === 0) {
+          return NextResponse.json(
+            { error: 'unauthorized_client', error_description: 'Client is not permitted to exchange tokens' },
+            { status: 400 }
+          );
+        }
+
+        // Only tokens issued to OAuth clients for a user; session cookies and app tokens can't be exchanged
+        const subject = await verifyJWT(subject_token, { audience: ANY_AUDIENCE });
+        if (!subject || subject.type !== 'access' || !subject.client_id || subject.sub_type === 'client') {
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'subject_token is invalid or expired' },
+            { status: 400 }
+          );
+        }
+        // The subject must have been issued to this client, or addressed to a resource it serves
+        const ownResources: string[] = JSON.parse(client.token_exchange_resources || '[]');
+        const subjectAudiences = Array.isArray(subject.aud) ? subject.aud : [subject.aud];
+        if (subject.client_id !== client.client_id && !subjectAudiences.some((aud) => aud && ownResources.includes(aud))) {
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'subject_token was not issued to or for this client' },
+            { status: 400 }
+          );
+        }
+        const user = await getUserById(db, subject.sub) as any;
+        if (!user || !user.is_active) {
+          return NextResponse.json(
+            { error: 'invalid_grant', error_description: 'subject_token is invalid or expired' },
+            { status: 400 }
+          );
+        }
+
+        // The actor is always the authenticated client; an actor_token may only confirm that
+        const actor: ActorClaim = { sub: client.client_id, client_id: client.client_id };
+        if (actor_token) {
+          const actorPayload = await verifyJWT(actor_token, { audience: ANY_AUDIENCE });
+          if (!actorPayload || actorPayload.type !== 'access') {
+            return NextResponse.json(
+              { error: 'invalid_grant', error_description: 'actor_token is invalid or expired' },
+              { status: 400 }
+            );
+          }
+          if (actorPayload.sub_type !== 'client' || actorPayload.sub !== client.client_id) {
+            return NextResponse.json(
+              { error: 'invalid_grant', error_description: 'actor_token must identify the authenticated client' },
+              { status: 400 }
+            );
+          }
+        }
+        // §4.1: keep earlier delegations nested so the whole chain is visible
+        const act: ActorClaim = { ...actor, ...(subject.act && { act: subject.act }) };
+
+        const targets = [...new Set([...getResourceParams(body.audience), ...requestedResources])];
+        if (targets.length === 0) {
+          return NextResponse.json(
+            { error: 'invalid_request', error_description: 'audience or resource is required' },
+            { status: 400 }
+          );
+        }
+        const reservedTarget = findReservedResource(targets);
+        if (reservedTarget) {
+          return NextResponse.json(
+            { error: 'invalid_target', error_description: `Audience is reserved for first-party tokens: ${reservedTarget}` },
+            { status: 400 }
+          );
+        }
+        const deniedTargets = targets.filter((target) => !allowedAudiences.includes(target));
+        if (deniedTargets.length > 0) {
+          return NextResponse.json(
+            { error: 'invalid_target', error_description: `Client may not exchange tokens for: ${deniedTargets.join(', ')}` },
+            { status: 400 }
+          );
+        }
+
+        // Downscope only: never more than the subject token carried
+        const subjectScopes = (subject.scope || '').split(' ').filter(Boolean);
+        const requestedScopes: string[] = scope ? scope.split(' ').filter(Boolean) : subjectScopes;
+        const excessScopes = requestedScopes.filter((s) => !subjectScopes.includes(s));
+        if (excessScopes.length > 0) {
+          return NextResponse.json(
+            { error: 'invalid_scope', error_description: `Scopes not granted to the subject token: ${excessScopes.join(', ')}` },
+            { status: 400 }
+          );
+        }
+        const grantedScope = requestedScopes.join(' ');
+
+        // The exchanged token never outlives the one it was exchanged for
+        const remainingSeconds = subject.exp - Math.floor(Date.now() / 1000);
+        const expiresInSeconds = Math.min(getAccessTokenTtlMinutes(client) * 60, remainingSeconds);
+
+        const accessToken = await createAccessToken(
+          subject.sub,
+          user.email,
+          subject.provider,
+          expiresInSeconds / 60,
+          false,
+          { scope: grantedScope, clientId: client.client_id, resources: targets, act }
+        );
+
+        try {
+          await logAuditEvent(db, {
+            id: generateUUID(),
+            userId: subject.sub,
+            eventType: 'token_exchange',
+            provider: client.client_id,
+            ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+                       request.headers.get('cf-connecting-ip') || 'unknown',
+            userAgent: request.headers.get('user-agent') || 'unknown',
+            status: 'success',
+            details: { subject_client_id: subject.client_id, audience: targets, scope: grantedScope, act },
+          });
+        } catch (auditError) {
+          console.error('[Token] Failed to audit token exchange:', auditError);
+        }
+
+        // §2.2.1: no refresh token; the caller exchanges again with a fresh subject token
+        return NextResponse.json(
+          {
+            access_token: accessToken,
+            issued_token_type: ACCESS_TOKEN_TYPE,
+            token_type: 'Bearer',
+            expires_in: expiresInSeconds,
+            scope: grantedScope,
+          },
+          { status: 200, headers: { 'Cache-Control': 'no-store' } }
+        );
+      } catch (error) {
+        console.error('[Token] Token exchange error:', error);
+        return NextResponse.json(
+          { error: 'server_error', error_description: 'Failed to process token request' },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Client Credentials Flow (RFC 6749 Section 4.4)
     if (grant_type === 'client_credentials') {
-      return NextResponse.json(
-        { error: 'unsupported_grant_type', error_description: 'client_credentials not yet implemented' },
-        { status: 501 }
-      );
+      const db = await getDatabase();
+
+      try {
+        // Only confidential clients can act on their own behalf
+        const { client, error } = await authenticateClient(db, request, body);
+        if (error) return error;
+        if (!isGrantTypeAllowed(client, grant_type)) return unauthorizedGrantTypeResponse(grant_type);
+
+        const registeredScopes: string[] = JSON.parse(client.scopes || '[]');
+        const requestedScopes: string[] = scope ? scope.split(' ').filter(Boolean) : registeredScopes;
+        const unavailableScopes = await findUnavailableClientScopes(db, client, requestedScopes);
+        if (unavailableScopes.length > 0) {
+          return NextResponse.json(
+            { error: 'invalid_scope', error_description: `Scopes not available to this client: ${unavailableScopes.join(', ')}` },
+            { status: 400 }
+          );
+        }
+
+        const grantedScope = requestedScopes.join(' ');
+        const accessTokenMinutes = getAccessTokenTtlMinutes(client);
+        const accessToken = await createClientAccessToken(
+          client.client_id,
+          grantedScope,
+          accessTokenMinutes,
+          requestedResources
+        );
+
+        // No refresh token (RFC 6749 §4.4.3): the client can simply request a new token
+        return NextResponse.json(
+          {
+            access_token: accessToken,
+            token_type: 'Bearer',
+            expires_in: accessTokenMinutes * 60,
+            scope: grantedScope,
+          },
+          { status: 200 }
+        );
+      } catch (error) {
+        console.error('[Token] Client credentials flow error:', error);
+        return NextResponse.json(
+          { error: 'server_error', error_description: 'Failed to process token request' },
+          { status: 500 }
+        );
+      }
     }
 
     return NextResponse.json(
@@ -0,0 +1,82 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyJWT, getApiAudience } from '@/lib/jwt';
+import { getUserById } from '@/lib/db';
+import { getDatabase } from '@/lib/d1-client';
+import { getUserClaims } from '@/lib/oidc';
+
+function bearerError(error: string, description: string, status: number) {
+  return NextResponse.json(
+    { error, error_description: description },
+    {
+      status,
+      headers: {
+        'WWW-Authenticate': `Bearer error="${error}", error_description="${description}"`,
+      },
+    }
+  );
+}
+
+/**
+ * GET|POST /api/auth/userinfo
+ *
+ * OpenID Connect UserInfo Endpoint (OIDC Core §5.3)
+ *
+ * Request Headers:
+ * - Authorization: Bearer <access_token> (required)
+ *
+ * Returns `sub` plus the standard claims allowed by the token's granted scopes:
+ *   profile → name, picture, locale, zoneinfo
+ *   email   → email, email_verified
+ */
+async function handleUserInfo(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return bearerError('invalid_request', 'Bearer access token is required', 401);
+    }
+
+    const payload = await verifyJWT(authHeader.substring(7), { audience: getApiAudience() });
+    if (!payload || payload.type !== 'access') {
+      return bearerError('invalid_token', 'Access token is invalid or expired', 401);
+    }
+
+    if (payload.sub_type === 'client') {
+      return bearerError('invalid_token', 'App tokens have no associated user', 401);
+    }
+
+    // Only OAuth access tokens reach here (session tokens have another audience); no scope claim grants nothing
+    const scopes = (payload.scope || '').split(' ').filter(Boolean);
+    if (!scopes.includes('openid')) {
+      return bearerError('insufficient_scope', 'The openid scope is required', 403);
+    }
+
+    const db = await getDatabase();
+    const user = await getUserById(db, payload.sub) as any;
+    if (!user || !user.is_active) {
+      return bearerError('invalid_token', 'User not found or inactive', 401);
+    }
+
+    const claims = await getUserClaims(db, payload.sub, scopes);
+
+    return NextResponse.json(
+      { sub: payload.sub, ...claims },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('[UserInfo] Error:', error);
+    return NextResponse.json(
+      { error: 'server_error', error_description: 'Failed to load user info' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleUserInfo(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleUserInfo(request);
+}
@@ -1,7 +1,7 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
 import { getDatabase } from '@/lib/d1-client';
 
 async function getAuth(request: NextRequest) {
@@ -9,7 +9,7 @@ async function getAuth(request: NextRequest) {
     request.cookies.get('access_token')?.value ||
     request.headers.get('authorization')?.replace('Bearer ', '');
   if (!token) return null;
-  const payload = await verifyJWT(token);
+  const payload = await verifyJWT(token, { audience: getSessionAudience() });
   if (!payload || payload.type !== 'access') return null;
   return payload;
 }
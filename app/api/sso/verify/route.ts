@@ -1,7 +1,7 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
+import { verifyJWT, getApiAudience } from '@/lib/jwt';
 
 /**
  * GET /api/sso/verify?token=xxx
@@ -26,7 +26,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const payload = await verifyJWT(token);
+    const payload = await verifyJWT(token, { audience: getApiAudience() });
 
     if (!payload) {
       return NextResponse.json(
@@ -39,11 +39,30 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // client_credentials tokens represent an OAuth app, not a user
+    if (payload.sub_type === 'client') {
+      console.log(`[SSO Verify GET] App token verified for client ${payload.sub}`);
+      return NextResponse.json(
+        {
+          valid: true,
+          subject_type: 'client',
+          client: {
+            client_id: payload.client_id,
+            scope: payload.scope,
+            iat: payload.iat,
+            exp: payload.exp,
+          },
+        },
+        { status: 200 }
+      );
+    }
+
     console.log(`[SSO Verify GET] Token verified for user ${payload.sub}${clientId ? ` by client ${clientId}` : ''}`);
 
     return NextResponse.json(
       {
         valid: true,
+        subject_type: 'user',
         user: {
           sub: payload.sub,
           email: payload.email,
@@ -107,7 +126,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const payload = await verifyJWT(token);
+    const payload = await verifyJWT(token, { audience: getApiAudience() });
 
     if (!payload) {
       return NextResponse.json(
@@ -120,11 +139,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // client_credentials tokens represent an OAuth app, not a user
+    if (payload.sub_type === 'client') {
+      console.log(`[SSO Verify POST] App token verified for client ${payload.sub}`);
+      return NextResponse.json(
+        {
+          valid: true,
+          subject_type: 'client',
+          client: {
+            client_id: payload.client_id,
+            scope: payload.scope,
+            iat: payload.iat,
+            exp: payload.exp,
+          },
+        },
+        { status: 200 }
+      );
+    }
+
     console.log(`[SSO Verify POST] Token verified for user ${payload.sub}${clientId ? ` by service ${clientId}` : ''}`);
 
     return NextResponse.json(
       {
         valid: true,
+        subject_type: 'user',
         user: {
           sub: payload.sub,
           email: payload.email,
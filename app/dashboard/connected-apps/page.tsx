@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  Snackbar,
+  CircularProgress,
+} from '@mui/material';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
+
+interface ConnectedApp {
+  client_id: string;
+  name: string;
+  description?: string;
+  logo_url?: string;
+  homepage_url?: string;
+  scopes: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+const cardSx = {
+  backdropFilter: 'blur(20px)',
+  background: 'linear-gradient(135deg, rgba(255,255,255,0.05) 0%, rgba(255,255,255,0.02) 100%)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '16px',
+};
+
+export default function ConnectedAppsPage() {
+  const [apps, setApps] = useState<ConnectedApp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [snack, setSnack] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
+    open: false,
+    message: '',
+    severity: 'success',
+  });
+
+  useEffect(() => {
+    fetchApps();
+  }, []);
+
+  const fetchApps = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/auth/connected-apps', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch connected apps');
+      const data: any = await res.json();
+      setApps(data.apps || []);
+    } catch {
+      showSnack('Failed to load connected apps', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showSnack = (message: string, severity: 'success' | 'error') => {
+    setSnack({ open: true, message, severity });
+  };
+
+  const handleRevoke = async (app: ConnectedApp) => {
+    if (!confirm(`Revoke access for ${app.name}? It will be signed out and must ask for permission again.`)) return;
+
+    setRevoking(app.client_id);
+    try {
+      const res = await fetch(`/api/auth/connected-apps/${app.client_id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!res.ok) throw new Error('Failed to revoke');
+      setApps((prev) => prev.filter((a) => a.client_id !== app.client_id));
+      showSnack(`Access revoked for ${app.name}`, 'success');
+    } catch {
+      showSnack('Failed to revoke access', 'error');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', background: '#0f0f0f', p: 3 }}>
+      <Box sx={{ maxWidth: '1100px', mx: 'auto' }}>
+        {/* Header */}
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h4" sx={{ fontWeight: 700, color: '#f5f5f4', mb: 1 }}>
+            Connected Apps
+          </Typography>
+          <Typography sx={{ color: 'rgba(255,255,255,0.6)' }}>
+            Applications you have allowed to access your Elixpo account
+          </Typography>
+        </Box>
+
+        {loading ? (
+          <Box sx={{ ...cardSx, p: 4, textAlign: 'center' }}>
+            <CircularProgress sx={{ color: '#a3e635' }} />
+          </Box>
+        ) : apps.length === 0 ? (
+          <Box sx={{ ...cardSx, p: 4, textAlign: 'center', color: 'rgba(255,255,255,0.4)' }}>
+            You haven&apos;t authorized any applications yet.
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {apps.map((app) => (
+              <Box key={app.client_id} sx={{ ...cardSx, p: 3, display: 'flex', alignItems: 'center', gap: 2 }}>
+                <Box
+                  sx={{
+                    width: 48,
+                    height: 48,
+                    borderRadius: '12px',
+                    flexShrink: 0,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    overflow: 'hidden',
+                    bgcolor: 'rgba(163,230,53,0.1)',
+                    border: '1px solid rgba(163,230,53,0.2)',
+                  }}
+                >
+                  {app.logo_url ? (
+                    /* eslint-disable-next-line @next/next/no-img-element */
+                    <img src={app.logo_url} alt={app.name} width={48} height={48} style={{ objectFit: 'cover' }} />
+                  ) : (
+                    <Typography sx={{ color: '#a3e635', fontWeight: 700, fontSize: '1.25rem' }}>
+                      {app.name.charAt(0).toUpperCase()}
+                    </Typography>
+                  )}
+                </Box>
+
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography sx={{ color: '#f5f5f4', fontWeight: 600 }}>{app.name}</Typography>
+                  {app.homepage_url && (
+                    <Typography variant="body2" sx={{ color: 'rgba(255,255,255,0.5)', fontSize: '0.8rem' }}>
+                      {app.homepage_url}
+                    </Typography>
+                  )}
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 1 }}>
+                    {app.scopes.map((scope) => (
+                      <Chip
+                        key={scope}
+                        label={scope}
+                        size="small"
+                        sx={{ bgcolor: 'rgba(163,230,53,0.1)', color: '#a3e635', fontSize: '0.7rem', height: 20 }}
+                      />
+                    ))}
+                  </Box>
+                  <Typography variant="body2" sx={{ color: 'rgba(255,255,255,0.4)', fontSize: '0.75rem', mt: 1 }}>
+                    Authorized {new Date(app.created_at).toLocaleDateString()}
+                  </Typography>
+                </Box>
+
+                <Button
+                  startIcon={<LinkOffIcon />}
+                  onClick={() => handleRevoke(app)}
+                  disabled={revoking === app.client_id}
+                  sx={{
+                    color: '#ef4444',
+                    border: '1px solid rgba(239,68,68,0.3)',
+                    textTransform: 'none',
+                    fontWeight: 600,
+                    flexShrink: 0,
+                    '&:hover': { bgcolor: 'rgba(239,68,68,0.1)' },
+                  }}
+                >
+                  {revoking === app.client_id ? 'Revoking...' : 'Revoke access'}
+                </Button>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={4000}
+        onClose={() => setSnack({ ...snack, open: false })}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert
+          severity={snack.severity}
+          onClose={() => setSnack({ ...snack, open: false })}
+          sx={{
+            bgcolor: snack.severity === 'success' ? 'rgba(163,230,53,0.15)' : 'rgba(239,68,68,0.15)',
+            color: snack.severity === 'success' ? '#a3e635' : '#ef4444',
+            border: `1px solid ${snack.severity === 'success' ? 'rgba(163,230,53,0.3)' : 'rgba(239,68,68,0.3)'}`,
+          }}
+        >
+          {snack.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
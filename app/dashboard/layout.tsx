@@ -14,7 +14,7 @@ import {
   IconButton,
   CircularProgress,
 } from '@mui/material';
-import { Apps, Person, Webhook, Logout } from '@mui/icons-material';
+import { Apps, Person, Webhook, Logout, Link as LinkIcon, VpnKey } from '@mui/icons-material';
 import { createTheme, ThemeProvider } from '@mui/material/styles';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
@@ -33,6 +33,8 @@ interface DashboardLayoutProps {
 
 const menuItems = [
   { label: 'OAuth Apps', icon: Apps, href: '/dashboard/oauth-apps' },
+  { label: 'Connected Apps', icon: LinkIcon, href: '/dashboard/connected-apps' },
+  { label: 'API Scopes', icon: VpnKey, href: '/dashboard/scopes' },
   { label: 'Profile', icon: Person, href: '/dashboard/profile' },
   { label: 'Webhooks', icon: Webhook, href: '/dashboard/webhooks' },
 ];
@@ -13,6 +13,10 @@ import {
   Divider,
   IconButton,
   Tooltip,
+  Autocomplete,
+  FormControlLabel,
+  Switch,
+  Checkbox,
 } from '@mui/material';
 import SaveIcon from '@mui/icons-material/Save';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
@@ -42,6 +46,15 @@ const textFieldSx = {
   '& .MuiFormHelperText-root': { color: 'rgba(255,255,255,0.4)' },
 };
 
+// Grants the token endpoint supports; confidential-only ones are unavailable to public clients
+const GRANT_TYPE_OPTIONS = [
+  { value: 'authorization_code', label: 'Authorization code', confidentialOnly: false },
+  { value: 'refresh_token', label: 'Refresh token', confidentialOnly: false },
+  { value: 'urn:ietf:params:oauth:grant-type:device_code', label: 'Device code', confidentialOnly: false },
+  { value: 'client_credentials', label: 'Client credentials', confidentialOnly: true },
+  { value: 'urn:ietf:params:oauth:grant-type:token-exchange', label: 'Token exchange', confidentialOnly: true },
+];
+
 const monoBox = {
   display: 'flex',
   alignItems: 'center',
@@ -71,7 +84,20 @@ export default function OAuthAppSettingsPage() {
     description: '',
     homepage_url: '',
     redirect_uris: [''] as string[],
+    post_logout_redirect_uris: [] as string[],
+    backchannel_logout_uri: '',
+    require_pushed_authorization_requests: false,
+    application_type: 'web',
+    scopes: [] as string[],
+    access_token_ttl_minutes: '',
+    refresh_token_ttl_days: '',
+    refresh_token_expiry: 'sliding',
+    // null: the app never restricted its grant types, so all are allowed
+    grant_types: null as string[] | null,
   });
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [logoutDeliveries, setLogoutDeliveries] = useState<any[]>([]);
+  const [secrets, setSecrets] = useState<any[]>([]);
 
   useEffect(() => {
     const fetchApp = async () => {
@@ -88,6 +114,15 @@ export default function OAuthAppSettingsPage() {
           description: data.description || '',
           homepage_url: data.homepage_url || '',
           redirect_uris: uris.length > 0 ? uris : [''],
+          post_logout_redirect_uris: data.post_logout_redirect_uris || [],
+          backchannel_logout_uri: data.backchannel_logout_uri || '',
+          require_pushed_authorization_requests: !!data.require_pushed_authorization_requests,
+          application_type: data.application_type || 'web',
+          scopes: Array.isArray(data.scopes) ? data.scopes : [],
+          access_token_ttl_minutes: data.access_token_ttl_minutes?.toString() ?? '',
+          refresh_token_ttl_days: data.refresh_token_ttl_days?.toString() ?? '',
+          refresh_token_expiry: data.refresh_token_expiry || 'sliding',
+          grant_types: Array.isArray(data.grant_types) ? data.grant_types : null,
         });
       } catch {
         router.push('/dashboard/oauth-apps');
@@ -95,7 +130,40 @@ export default function OAuthAppSettingsPage() {
         setLoading(false);
       }
     };
+    const fetchLogoutDeliveries = async () => {
+      try {
+        const res = await fetch(`/api/auth/oauth-clients/${clientId}/logout-deliveries`, { credentials: 'include' });
+        if (!res.ok) return;
+        const data: any = await res.json();
+        setLogoutDeliveries(data.deliveries || []);
+      } catch {
+        // Non-owners and older deployments simply see no history
+      }
+    };
+    const fetchSecrets = async () => {
+      try {
+        const res = await fetch(`/api/auth/oauth-clients/${clientId}/secrets`, { credentials: 'include' });
+        if (!res.ok) return;
+        const data: any = await res.json();
+        setSecrets(data.secrets || []);
+      } catch {
+        // Secret list is informational only
+      }
+    };
+    const fetchAvailableScopes = async () => {
+      try {
+        const res = await fetch('/api/auth/scopes', { credentials: 'include' });
+        if (!res.ok) return;
+        const data: any = await res.json();
+        setAvailableScopes((data.scopes || []).filter((s: any) => s.is_active).map((s: any) => s.name));
+      } catch {
+        // Scope picker falls back to the app's current scopes
+      }
+    };
     fetchApp();
+    fetchLogoutDeliveries();
+    fetchSecrets();
+    fetchAvailableScopes();
   }, [clientId, router]);
 
   const copyToClipboard = (text: string, field: string) => {
@@ -104,6 +172,17 @@ export default function OAuthAppSettingsPage() {
     setTimeout(() => setCopiedField(null), 2000);
   };
 
+  const isPublicClient = app?.client_type === 'public';
+  const availableGrantTypes = GRANT_TYPE_OPTIONS.filter((g) => !(isPublicClient && g.confidentialOnly));
+  const allowedGrantTypes = form.grant_types ?? availableGrantTypes.map((g) => g.value);
+
+  const toggleGrantType = (grantType: string, allowed: boolean) => {
+    const updated = allowed
+      ? [...allowedGrantTypes, grantType]
+      : allowedGrantTypes.filter((g) => g !== grantType);
+    setForm({ ...form, grant_types: updated });
+  };
+
   const handleSave = async () => {
     setSaving(true);
     setMessage(null);
@@ -111,6 +190,9 @@ export default function OAuthAppSettingsPage() {
       const redirectUris = form.redirect_uris
         .map((u) => u.trim())
         .filter(Boolean);
+      const postLogoutRedirectUris = form.post_logout_redirect_uris
+        .map((u) => u.trim())
+        .filter(Boolean);
 
       const res = await fetch(`/api/auth/oauth-clients/${clientId}`, {
         method: 'PUT',
@@ -121,6 +203,15 @@ export default function OAuthAppSettingsPage() {
           description: form.description,
           homepage_url: form.homepage_url,
           redirect_uris: redirectUris,
+          post_logout_redirect_uris: postLogoutRedirectUris,
+          backchannel_logout_uri: form.backchannel_logout_uri.trim(),
+          require_pushed_authorization_requests: form.require_pushed_authorization_requests,
+          application_type: form.application_type,
+          scopes: form.scopes,
+          access_token_ttl_minutes: form.access_token_ttl_minutes ? Number(form.access_token_ttl_minutes) : null,
+          refresh_token_ttl_days: form.refresh_token_ttl_days ? Number(form.refresh_token_ttl_days) : null,
+          refresh_token_expiry: form.refresh_token_expiry,
+          grant_types: form.grant_types,
         }),
       });
 
@@ -154,7 +245,7 @@ export default function OAuthAppSettingsPage() {
   };
 
   const handleRegenerateSecret = async () => {
-    if (!confirm('Regenerate client secret? The old secret will stop working immediately. Make sure to update your application with the new secret.')) return;
+    if (!confirm('Regenerate client secret? The current secret keeps working for 24 hours so you can deploy the new one, then stops working.')) return;
     setRegenerating(true);
     setMessage(null);
     try {
@@ -169,6 +260,11 @@ export default function OAuthAppSettingsPage() {
       const data: any = await res.json();
       setRegeneratedSecret(data.client_secret);
       setMessage({ text: 'Client secret regenerated. Copy it now — it won\'t be shown again.', type: 'success' });
+      const secretsRes = await fetch(`/api/auth/oauth-clients/${clientId}/secrets`, { credentials: 'include' });
+      if (secretsRes.ok) {
+        const secretsData: any = await secretsRes.json();
+        setSecrets(secretsData.secrets || []);
+      }
     } catch (err: any) {
       setMessage({ text: err.message, type: 'error' });
     } finally {
@@ -176,6 +272,23 @@ export default function OAuthAppSettingsPage() {
     }
   };
 
+  const handleRetireSecret = async (secretId: string) => {
+    if (!confirm('Retire this secret now? Apps still using it will fail to authenticate.')) return;
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/auth/oauth-clients/${clientId}/secrets/${secretId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data: any = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to retire secret');
+      setSecrets(data.secrets || []);
+      setMessage({ text: 'Secret retired', type: 'success' });
+    } catch (err: any) {
+      setMessage({ text: err.message, type: 'error' });
+    }
+  };
+
   if (loading) {
     return (
       <Box sx={{ minHeight: '100vh', background: '#0f0f0f', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -245,7 +358,11 @@ export default function OAuthAppSettingsPage() {
           </Box>
 
           <Typography sx={{ color: 'rgba(255,255,255,0.6)', fontSize: '0.8rem', mb: 0.75 }}>Client Secret</Typography>
-          {regeneratedSecret ? (
+          {app?.client_type === 'public' ? (
+            <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', display: 'block' }}>
+              Public client — no secret is issued. Authorization requests must use PKCE.
+            </Typography>
+          ) : regeneratedSecret ? (
             <>
               <Box sx={{ ...monoBox, border: '1px solid rgba(163,230,53,0.4)' }}>
                 <Typography sx={{ color: '#a3e635', fontFamily: 'monospace', fontSize: '0.85rem', flex: 1, wordBreak: 'break-all' }}>
@@ -287,6 +404,31 @@ export default function OAuthAppSettingsPage() {
               </Typography>
             </>
           )}
+          {app?.client_type !== 'public' && secrets.length > 0 && (
+            <Box sx={{ mt: 1.5 }}>
+              {secrets.map((secret: any, index: number) => (
+                <Box
+                  key={secret.id}
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5, borderTop: index > 0 ? '1px solid rgba(255,255,255,0.06)' : 'none' }}
+                >
+                  <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.5)', flex: 1 }}>
+                    {index === 0 ? 'Newest' : 'Previous'} secret · created {new Date(secret.created_at).toLocaleString()}
+                    {secret.expires_at ? ` · expires ${new Date(secret.expires_at).toLocaleString()}` : ''}
+                    {secret.last_used_at ? ` · last used ${new Date(secret.last_used_at).toLocaleString()}` : ' · never used'}
+                  </Typography>
+                  {secrets.length > 1 && (
+                    <Button
+                      size="small"
+                      onClick={() => handleRetireSecret(secret.id)}
+                      sx={{ color: '#f87171', textTransform: 'none', fontSize: '0.75rem', minWidth: 0 }}
+                    >
+                      Retire now
+                    </Button>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          )}
         </Box>
 
         {/* General Settings */}
@@ -322,9 +464,22 @@ export default function OAuthAppSettingsPage() {
         {/* OAuth Settings */}
         <Box sx={cardSx}>
           <Typography sx={{ color: '#f5f5f4', fontWeight: 600, mb: 1 }}>OAuth Settings</Typography>
-          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.4)', display: 'block', mb: 2 }}>
-            Scopes: {Array.isArray(app?.scopes) ? app.scopes.join(', ') : (app?.scopes || 'openid profile email')}
-          </Typography>
+          <Autocomplete
+            multiple
+            size="small"
+            options={availableScopes}
+            value={form.scopes}
+            onChange={(_, value) => setForm({ ...form, scopes: value })}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Scopes"
+                helperText="Scopes this app may request, including API scopes from the scope registry"
+                sx={textFieldSx}
+              />
+            )}
+            sx={{ mb: 3 }}
+          />
           <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.85rem', mb: 0.5 }}>
             Redirect URIs
           </Typography>
@@ -369,6 +524,179 @@ export default function OAuthAppSettingsPage() {
               Add URI
             </Button>
           )}
+
+          <FormControlLabel
+            sx={{ mt: 1, display: 'flex' }}
+            control={
+              <Switch
+                checked={form.application_type === 'native'}
+                onChange={(e) => setForm({ ...form, application_type: e.target.checked ? 'native' : 'web' })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#a3e635' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { bgcolor: '#65a30d' },
+                }}
+              />
+            }
+            label={
+              <Box>
+                <Typography sx={{ color: '#e5e7eb', fontSize: '0.9rem' }}>Native app</Typography>
+                <Typography variant="caption" sx={{ color: '#6b7280', display: 'block' }}>
+                  Loopback redirects (http://127.0.0.1/callback) match any port; private-use schemes (com.example.app:/callback) are allowed
+                </Typography>
+              </Box>
+            }
+          />
+
+          <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.85rem', mt: 3, mb: 0.5 }}>
+            Post-logout Redirect URIs
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.4)', display: 'block', mb: 1.5 }}>
+            Where users may be sent after signing out through the end_session endpoint (up to 5)
+          </Typography>
+          {form.post_logout_redirect_uris.map((uri, index) => (
+            <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <TextField
+                fullWidth
+                size="small"
+                value={uri}
+                onChange={(e) => {
+                  const updated = [...form.post_logout_redirect_uris];
+                  updated[index] = e.target.value;
+                  setForm({ ...form, post_logout_redirect_uris: updated });
+                }}
+                placeholder="https://example.com/logged-out"
+                sx={textFieldSx}
+              />
+              <IconButton
+                size="small"
+                onClick={() => {
+                  const updated = form.post_logout_redirect_uris.filter((_, i) => i !== index);
+                  setForm({ ...form, post_logout_redirect_uris: updated });
+                }}
+                sx={{ color: '#ef4444', '&:hover': { bgcolor: 'rgba(239,68,68,0.1)' } }}
+              >
+                <RemoveCircleOutlineIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          {form.post_logout_redirect_uris.length < 5 && (
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setForm({ ...form, post_logout_redirect_uris: [...form.post_logout_redirect_uris, ''] })}
+              sx={{ color: '#a3e635', textTransform: 'none', fontSize: '0.8rem', mt: 0.5 }}
+            >
+              Add URI
+            </Button>
+          )}
+
+          <TextField
+            fullWidth
+            size="small"
+            label="Back-channel Logout URI"
+            placeholder="https://example.com/backchannel-logout"
+            value={form.backchannel_logout_uri}
+            onChange={(e) => setForm({ ...form, backchannel_logout_uri: e.target.value })}
+            helperText="Receives a signed logout token when a user's session ends"
+            sx={{ ...textFieldSx, mt: 3 }}
+          />
+
+          <FormControlLabel
+            sx={{ mt: 2 }}
+            control={
+              <Switch
+                checked={form.require_pushed_authorization_requests}
+                onChange={(e) => setForm({ ...form, require_pushed_authorization_requests: e.target.checked })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#a3e635' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { bgcolor: '#65a30d' },
+                }}
+              />
+            }
+            label={
+              <Box>
+                <Typography sx={{ color: '#e5e7eb', fontSize: '0.9rem' }}>Require pushed authorization requests</Typography>
+                <Typography variant="caption" sx={{ color: '#6b7280', display: 'block' }}>
+                  Authorization must start at /api/auth/par; plain /oauth/authorize links are rejected
+                </Typography>
+              </Box>
+            }
+          />
+        </Box>
+
+        {/* Tokens */}
+        <Box sx={cardSx}>
+          <Typography sx={{ color: '#f5f5f4', fontWeight: 600, mb: 2 }}>Tokens</Typography>
+          <Box sx={{ display: 'flex', gap: 2, mb: 1 }}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Access token lifetime (minutes)"
+              value={form.access_token_ttl_minutes}
+              onChange={(e) => setForm({ ...form, access_token_ttl_minutes: e.target.value })}
+              inputProps={{ min: 1, max: 1440 }}
+              helperText="1–1440; leave empty for the default"
+              sx={textFieldSx}
+            />
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Refresh token lifetime (days)"
+              value={form.refresh_token_ttl_days}
+              onChange={(e) => setForm({ ...form, refresh_token_ttl_days: e.target.value })}
+              inputProps={{ min: 1, max: 365 }}
+              helperText="1–365; leave empty for the default"
+              sx={textFieldSx}
+            />
+          </Box>
+
+          <FormControlLabel
+            sx={{ display: 'flex' }}
+            control={
+              <Switch
+                checked={form.refresh_token_expiry === 'absolute'}
+                onChange={(e) => setForm({ ...form, refresh_token_expiry: e.target.checked ? 'absolute' : 'sliding' })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#a3e635' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { bgcolor: '#65a30d' },
+                }}
+              />
+            }
+            label={
+              <Box>
+                <Typography sx={{ color: '#e5e7eb', fontSize: '0.9rem' }}>Absolute refresh token expiry</Typography>
+                <Typography variant="caption" sx={{ color: '#6b7280', display: 'block' }}>
+                  Users sign in again when the first refresh token expires; otherwise each refresh extends the session
+                </Typography>
+              </Box>
+            }
+          />
+
+          <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.85rem', mt: 3, mb: 0.5 }}>
+            Allowed Grant Types
+          </Typography>
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.4)', display: 'block', mb: 1 }}>
+            Token requests using any other grant are rejected; without refresh token, no refresh tokens are issued
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 2 }}>
+            {availableGrantTypes.map((grantType) => (
+              <FormControlLabel
+                key={grantType.value}
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={allowedGrantTypes.includes(grantType.value)}
+                    disabled={allowedGrantTypes.length === 1 && allowedGrantTypes.includes(grantType.value)}
+                    onChange={(e) => toggleGrantType(grantType.value, e.target.checked)}
+                    sx={{ color: 'rgba(255,255,255,0.3)', '&.Mui-checked': { color: '#a3e635' } }}
+                  />
+                }
+                label={<Typography sx={{ color: '#e5e7eb', fontSize: '0.9rem' }}>{grantType.label}</Typography>}
+              />
+            ))}
+          </Box>
         </Box>
 
         {/* Save */}
@@ -391,6 +719,40 @@ export default function OAuthAppSettingsPage() {
           </Button>
         </Box>
 
+        {/* Back-channel logout deliveries */}
+        {logoutDeliveries.length > 0 && (
+          <Box sx={cardSx}>
+            <Typography sx={{ color: '#f5f5f4', fontWeight: 600, mb: 1 }}>Back-channel Logout Deliveries</Typography>
+            <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.4)', display: 'block', mb: 2 }}>
+              Recent logout notifications sent to your back-channel logout URI
+            </Typography>
+            {logoutDeliveries.map((delivery) => (
+              <Box
+                key={delivery.id}
+                sx={{ display: 'flex', alignItems: 'center', gap: 1.5, py: 1, borderTop: '1px solid rgba(255,255,255,0.05)' }}
+              >
+                <Chip
+                  label={delivery.status}
+                  size="small"
+                  sx={{
+                    height: 20,
+                    fontSize: '0.7rem',
+                    bgcolor: delivery.status === 'delivered' ? 'rgba(163,230,53,0.1)' : delivery.status === 'failed' ? 'rgba(239,68,68,0.1)' : 'rgba(234,179,8,0.1)',
+                    color: delivery.status === 'delivered' ? '#a3e635' : delivery.status === 'failed' ? '#ef4444' : '#eab308',
+                  }}
+                />
+                <Typography sx={{ color: 'rgba(255,255,255,0.7)', fontSize: '0.8rem', flex: 1 }}>
+                  {new Date(delivery.created_at).toLocaleString()}
+                  {delivery.error_message && ` — ${delivery.error_message}`}
+                </Typography>
+                <Typography sx={{ color: 'rgba(255,255,255,0.4)', fontSize: '0.75rem' }}>
+                  {delivery.attempt_count} {delivery.attempt_count === 1 ? 'attempt' : 'attempts'}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        )}
+
         {/* Danger Zone */}
         <Box sx={{ ...cardSx, border: '1px solid rgba(239,68,68,0.35)' }}>
           <Typography sx={{ color: '#ef4444', fontWeight: 600, mb: 1 }}>Danger Zone</Typography>
@@ -3,7 +3,7 @@
 import {
   Box, Button, TextField, Typography, Dialog, DialogTitle, DialogContent,
   DialogActions, Table, TableBody, TableCell, TableContainer, TableHead,
-  TableRow, Paper, IconButton, Chip, Alert, Snackbar,
+  TableRow, Paper, IconButton, Chip, Alert, Snackbar, FormControlLabel, Checkbox,
 } from '@mui/material';
 import { useState, useEffect } from 'react';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
@@ -26,7 +26,8 @@ interface OAuthApp {
 
 interface CreateAppResponse {
   client_id: string;
-  client_secret: string;
+  client_secret?: string;
+  client_type: 'public' | 'confidential';
   name: string;
   redirect_uris: string[];
   scopes: string[];
@@ -86,6 +87,8 @@ const OAuthAppsPage = () => {
     homepage_url: '',
     description: '',
     redirect_uris: [''],
+    is_public: false,
+    is_native: false,
   });
 
   useEffect(() => {
@@ -152,6 +155,8 @@ const OAuthAppsPage = () => {
           description: formData.description || undefined,
           redirect_uris: uris,
           scopes: ['openid', 'profile', 'email'],
+          client_type: formData.is_public ? 'public' : 'confidential',
+          application_type: formData.is_native ? 'native' : 'web',
         }),
       });
 
@@ -164,7 +169,7 @@ const OAuthAppsPage = () => {
       setNewAppData(data);
       setOpenSecretDialog(true);
       setOpenDialog(false);
-      setFormData({ name: '', homepage_url: '', description: '', redirect_uris: [''] });
+      setFormData({ name: '', homepage_url: '', description: '', redirect_uris: [''], is_public: false, is_native: false });
       setSuccessMessage('Application registered successfully!');
       await fetchApps();
     } catch (err) {
@@ -204,7 +209,7 @@ const OAuthAppsPage = () => {
   const handleCloseDialog = () => {
     setOpenDialog(false);
     setError('');
-    setFormData({ name: '', homepage_url: '', description: '', redirect_uris: [''] });
+    setFormData({ name: '', homepage_url: '', description: '', redirect_uris: [''], is_public: false, is_native: false });
   };
 
   const dialogPaperSx = {
@@ -471,6 +476,38 @@ const OAuthAppsPage = () => {
             </Button>
           )}
 
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={formData.is_public}
+                onChange={(e) => setFormData({ ...formData, is_public: e.target.checked })}
+                sx={{ color: 'rgba(255,255,255,0.4)', '&.Mui-checked': { color: '#a3e635' } }}
+                disabled={loading}
+              />
+            }
+            label="Public client"
+            sx={{ mt: 2, color: 'rgba(255,255,255,0.7)', '& .MuiFormControlLabel-label': { fontSize: '0.85rem' } }}
+          />
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.4)', display: 'block' }}>
+            For SPAs, mobile and desktop apps that cannot keep a secret. No client secret is issued and PKCE is required.
+          </Typography>
+
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={formData.is_native}
+                onChange={(e) => setFormData({ ...formData, is_native: e.target.checked })}
+                sx={{ color: 'rgba(255,255,255,0.4)', '&.Mui-checked': { color: '#a3e635' } }}
+                disabled={loading}
+              />
+            }
+            label="Native app"
+            sx={{ mt: 1, color: 'rgba(255,255,255,0.7)', '& .MuiFormControlLabel-label': { fontSize: '0.85rem' } }}
+          />
+          <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.4)', display: 'block' }}>
+            For mobile and desktop apps. Allows loopback redirects on any port (http://127.0.0.1/callback) and private-use schemes (com.example.app:/callback).
+          </Typography>
+
           {error && (
             <Alert severity="error" sx={{ mt: 2, backgroundColor: 'rgba(239, 68, 68, 0.1)', color: '#f87171' }}>
               {error}
@@ -548,12 +585,14 @@ const OAuthAppsPage = () => {
         PaperProps={{ sx: dialogPaperSx }}
       >
         <DialogTitle sx={{ color: '#f5f5f4', fontWeight: 700, borderBottom: '1px solid rgba(255, 255, 255, 0.1)' }}>
-          Your new client secret
+          {newAppData?.client_secret ? 'Your new client secret' : 'Your new client'}
         </DialogTitle>
         <DialogContent sx={{ pt: 3 }}>
-          <Alert severity="warning" sx={{ mb: 3, backgroundColor: 'rgba(251, 146, 60, 0.1)', color: '#fed7aa', borderColor: 'rgba(251, 146, 60, 0.3)' }}>
-            Make sure to copy your new client secret now. You won't be able to see it again.
-          </Alert>
+          {newAppData?.client_secret && (
+            <Alert severity="warning" sx={{ mb: 3, backgroundColor: 'rgba(251, 146, 60, 0.1)', color: '#fed7aa', borderColor: 'rgba(251, 146, 60, 0.3)' }}>
+              Make sure to copy your new client secret now. You won't be able to see it again.
+            </Alert>
+          )}
 
           {newAppData && (
             <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2.5 }}>
@@ -572,20 +611,26 @@ const OAuthAppsPage = () => {
                 {idCopied && <Typography sx={{ color: '#a3e635', fontSize: '0.75rem', mt: 0.5 }}>Copied!</Typography>}
               </Box>
 
-              <Box>
-                <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.8rem', mb: 0.75 }}>
-                  Client Secret
-                </Typography>
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, background: 'rgba(255, 255, 255, 0.05)', p: 1.5, borderRadius: '8px', border: '1px solid rgba(239, 68, 68, 0.2)' }}>
-                  <Typography sx={{ color: '#ef4444', fontFamily: 'monospace', fontSize: '0.85rem', flex: 1, wordBreak: 'break-all' }}>
-                    {newAppData.client_secret}
+              {newAppData.client_secret ? (
+                <Box>
+                  <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.8rem', mb: 0.75 }}>
+                    Client Secret
                   </Typography>
-                  <IconButton size="small" onClick={() => handleCopyToClipboard(newAppData.client_secret, 'secret')} sx={{ color: '#ef4444' }}>
-                    <ContentCopyIcon fontSize="small" />
-                  </IconButton>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, background: 'rgba(255, 255, 255, 0.05)', p: 1.5, borderRadius: '8px', border: '1px solid rgba(239, 68, 68, 0.2)' }}>
+                    <Typography sx={{ color: '#ef4444', fontFamily: 'monospace', fontSize: '0.85rem', flex: 1, wordBreak: 'break-all' }}>
+                      {newAppData.client_secret}
+                    </Typography>
+                    <IconButton size="small" onClick={() => handleCopyToClipboard(newAppData.client_secret!, 'secret')} sx={{ color: '#ef4444' }}>
+                      <ContentCopyIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                  {secretCopied && <Typography sx={{ color: '#ef4444', fontSize: '0.75rem', mt: 0.5 }}>Copied!</Typography>}
                 </Box>
-                {secretCopied && <Typography sx={{ color: '#ef4444', fontSize: '0.75rem', mt: 0.5 }}>Copied!</Typography>}
-              </Box>
+              ) : (
+                <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.85rem' }}>
+                  This is a public client. It has no secret — send a PKCE <code>code_challenge</code> to /oauth/authorize and the matching <code>code_verifier</code> to the token endpoint.
+                </Typography>
+              )}
 
               <Box>
                 <Typography sx={{ color: 'rgba(255, 255, 255, 0.6)', fontSize: '0.8rem', mb: 0.75 }}>
@@ -0,0 +1,363 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  Chip,
+  Alert,
+  Snackbar,
+  CircularProgress,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+
+interface RegistryScope {
+  name: string;
+  description: string;
+  sensitivity: 'low' | 'medium' | 'high';
+  is_active: boolean;
+  built_in: boolean;
+  owned: boolean;
+}
+
+const cardSx = {
+  backdropFilter: 'blur(20px)',
+  background: 'linear-gradient(135deg, rgba(255,255,255,0.05) 0%, rgba(255,255,255,0.02) 100%)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: '16px',
+};
+
+const textFieldSx = {
+  '& .MuiOutlinedInput-root': {
+    color: '#f5f5f4',
+    '& fieldset': { borderColor: 'rgba(255,255,255,0.1)' },
+    '&:hover fieldset': { borderColor: 'rgba(255,255,255,0.2)' },
+    '&.Mui-focused fieldset': { borderColor: '#a3e635' },
+  },
+  '& .MuiInputLabel-root': { color: 'rgba(255,255,255,0.7)' },
+  '& .MuiInputLabel-root.Mui-focused': { color: '#a3e635' },
+  '& .MuiFormHelperText-root': { color: 'rgba(255,255,255,0.4)' },
+};
+
+const sensitivityColors: Record<RegistryScope['sensitivity'], { bg: string; fg: string }> = {
+  low: { bg: 'rgba(163,230,53,0.1)', fg: '#a3e635' },
+  medium: { bg: 'rgba(234,179,8,0.1)', fg: '#eab308' },
+  high: { bg: 'rgba(249,115,22,0.1)', fg: '#f97316' },
+};
+
+export default function ScopesPage() {
+  const [scopes, setScopes] = useState<RegistryScope[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState({ name: '', description: '', sensitivity: 'low' });
+  // Clients approved for client_credentials, loaded when a scope's panel is opened
+  const [openScope, setOpenScope] = useState<string | null>(null);
+  const [approvedClients, setApprovedClients] = useState<Record<string, { client_id: string; name: string }[]>>({});
+  const [approveClientId, setApproveClientId] = useState('');
+  const [snack, setSnack] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
+    open: false,
+    message: '',
+    severity: 'success',
+  });
+
+  useEffect(() => {
+    fetchScopes();
+  }, []);
+
+  const fetchScopes = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/auth/scopes', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch scopes');
+      const data: any = await res.json();
+      setScopes(data.scopes || []);
+    } catch {
+      showSnack('Failed to load scopes', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showSnack = (message: string, severity: 'success' | 'error') => {
+    setSnack({ open: true, message, severity });
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/auth/scopes', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, name: form.name.trim() }),
+      });
+      const data: any = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to create scope');
+      setScopes((prev) => [...prev, data]);
+      setForm({ name: '', description: '', sensitivity: 'low' });
+      showSnack(`Scope ${data.name} created`, 'success');
+    } catch (err: any) {
+      showSnack(err.message, 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggle = async (scope: RegistryScope) => {
+    try {
+      const res = await fetch(`/api/auth/scopes/${encodeURIComponent(scope.name)}`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !scope.is_active }),
+      });
+      if (!res.ok) throw new Error('Failed to update');
+      const updated: any = await res.json();
+      setScopes((prev) => prev.map((s) => (s.name === scope.name ? updated : s)));
+    } catch {
+      showSnack('Failed to update scope', 'error');
+    }
+  };
+
+  const handleOpenClients = async (scopeName: string) => {
+    if (openScope === scopeName) {
+      setOpenScope(null);
+      return;
+    }
+    setOpenScope(scopeName);
+    setApproveClientId('');
+    try {
+      const res = await fetch(`/api/auth/scopes/${encodeURIComponent(scopeName)}/clients`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch');
+      const data: any = await res.json();
+      setApprovedClients((prev) => ({ ...prev, [scopeName]: data.clients || [] }));
+    } catch {
+      showSnack('Failed to load approved clients', 'error');
+    }
+  };
+
+  const handleApproveClient = async (scopeName: string) => {
+    try {
+      const res = await fetch(`/api/auth/scopes/${encodeURIComponent(scopeName)}/clients`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_id: approveClientId.trim() }),
+      });
+      const data: any = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to approve client');
+      setApprovedClients((prev) => ({ ...prev, [scopeName]: data.clients || [] }));
+      setApproveClientId('');
+    } catch (err: any) {
+      showSnack(err.message, 'error');
+    }
+  };
+
+  const handleWithdrawClient = async (scopeName: string, clientId: string) => {
+    try {
+      const res = await fetch(
+        `/api/auth/scopes/${encodeURIComponent(scopeName)}/clients?client_id=${encodeURIComponent(clientId)}`,
+        { method: 'DELETE', credentials: 'include' }
+      );
+      if (!res.ok) throw new Error('Failed to withdraw');
+      const data: any = await res.json();
+      setApprovedClients((prev) => ({ ...prev, [scopeName]: data.clients || [] }));
+    } catch {
+      showSnack('Failed to withdraw approval', 'error');
+    }
+  };
+
+  const ownedScopes = scopes.filter((s) => s.owned);
+
+  return (
+    <Box sx={{ minHeight: '100vh', background: '#0f0f0f', p: 3 }}>
+      <Box sx={{ maxWidth: '1100px', mx: 'auto' }}>
+        {/* Header */}
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h4" sx={{ fontWeight: 700, color: '#f5f5f4', mb: 1 }}>
+            API Scopes
+          </Typography>
+          <Typography sx={{ color: 'rgba(255,255,255,0.6)' }}>
+            Define scopes for your APIs. OAuth apps can request them, and users see your descriptions on the consent screen.
+          </Typography>
+        </Box>
+
+        {/* Create */}
+        <Box sx={{ ...cardSx, p: 3, mb: 3 }}>
+          <Typography sx={{ color: '#f5f5f4', fontWeight: 600, mb: 2 }}>New scope</Typography>
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+            <TextField
+              size="small"
+              label="Name"
+              placeholder="billing:read"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              helperText="namespace:action"
+              sx={{ ...textFieldSx, width: 200 }}
+            />
+            <TextField
+              size="small"
+              label="Description"
+              placeholder="View your invoices and payment history"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              helperText="Shown to users on the consent screen"
+              sx={{ ...textFieldSx, flex: 1, minWidth: 240 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Sensitivity"
+              value={form.sensitivity}
+              onChange={(e) => setForm({ ...form, sensitivity: e.target.value })}
+              sx={{ ...textFieldSx, width: 140 }}
+            >
+              <MenuItem value="low">Low</MenuItem>
+              <MenuItem value="medium">Medium</MenuItem>
+              <MenuItem value="high">High</MenuItem>
+            </TextField>
+            <Button
+              startIcon={<AddIcon />}
+              onClick={handleCreate}
+              disabled={creating || !form.name.trim() || !form.description.trim()}
+              sx={{
+                background: 'rgba(163,230,53,0.15)',
+                color: '#a3e635',
+                border: '1px solid rgba(163,230,53,0.3)',
+                fontWeight: 600,
+                textTransform: 'none',
+                height: 40,
+                '&:hover': { background: 'rgba(163,230,53,0.25)' },
+              }}
+            >
+              {creating ? 'Creating...' : 'Create'}
+            </Button>
+          </Box>
+        </Box>
+
+        {loading ? (
+          <Box sx={{ ...cardSx, p: 4, textAlign: 'center' }}>
+            <CircularProgress sx={{ color: '#a3e635' }} />
+          </Box>
+        ) : ownedScopes.length === 0 ? (
+          <Box sx={{ ...cardSx, p: 4, textAlign: 'center', color: 'rgba(255,255,255,0.4)' }}>
+            You haven&apos;t defined any scopes yet.
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {ownedScopes.map((scope) => (
+              <Box key={scope.name} sx={{ ...cardSx, p: 2.5 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography sx={{ color: '#f5f5f4', fontWeight: 600, fontFamily: 'monospace' }}>{scope.name}</Typography>
+                      <Chip
+                        label={scope.sensitivity}
+                        size="small"
+                        sx={{
+                          bgcolor: sensitivityColors[scope.sensitivity].bg,
+                          color: sensitivityColors[scope.sensitivity].fg,
+                          fontSize: '0.7rem',
+                          height: 20,
+                        }}
+                      />
+                      {!scope.is_active && (
+                        <Chip label="Disabled" size="small" sx={{ bgcolor: 'rgba(107,114,128,0.2)', color: '#9ca3af', fontSize: '0.7rem', height: 20 }} />
+                      )}
+                    </Box>
+                    <Typography variant="body2" sx={{ color: 'rgba(255,255,255,0.5)', mt: 0.5 }}>
+                      {scope.description}
+                    </Typography>
+                  </Box>
+                  <Button
+                    onClick={() => handleOpenClients(scope.name)}
+                    sx={{
+                      color: 'rgba(255,255,255,0.7)',
+                      border: '1px solid rgba(255,255,255,0.15)',
+                      textTransform: 'none',
+                      fontWeight: 600,
+                      flexShrink: 0,
+                    }}
+                  >
+                    Clients
+                  </Button>
+                  <Button
+                    onClick={() => handleToggle(scope)}
+                    sx={{
+                      color: scope.is_active ? '#ef4444' : '#a3e635',
+                      border: `1px solid ${scope.is_active ? 'rgba(239,68,68,0.3)' : 'rgba(163,230,53,0.3)'}`,
+                      textTransform: 'none',
+                      fontWeight: 600,
+                      flexShrink: 0,
+                    }}
+                  >
+                    {scope.is_active ? 'Disable' : 'Enable'}
+                  </Button>
+                </Box>
+                {openScope === scope.name && (
+                  <Box sx={{ mt: 2, pt: 2, borderTop: '1px solid rgba(255,255,255,0.08)' }}>
+                    <Typography variant="caption" sx={{ color: 'rgba(255,255,255,0.4)', display: 'block', mb: 1 }}>
+                      Other owners&apos; applications need your approval to use this scope in their own app tokens (client credentials)
+                    </Typography>
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1.5 }}>
+                      {(approvedClients[scope.name] || []).length === 0 ? (
+                        <Typography variant="body2" sx={{ color: 'rgba(255,255,255,0.4)' }}>No applications approved</Typography>
+                      ) : (
+                        (approvedClients[scope.name] || []).map((client) => (
+                          <Chip
+                            key={client.client_id}
+                            label={`${client.name} (${client.client_id})`}
+                            onDelete={() => handleWithdrawClient(scope.name, client.client_id)}
+                            sx={{ bgcolor: 'rgba(255,255,255,0.06)', color: '#e5e7eb' }}
+                          />
+                        ))
+                      )}
+                    </Box>
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <TextField
+                        size="small"
+                        placeholder="Client ID"
+                        value={approveClientId}
+                        onChange={(e) => setApproveClientId(e.target.value)}
+                        sx={{ ...textFieldSx, flex: 1 }}
+                      />
+                      <Button
+                        onClick={() => handleApproveClient(scope.name)}
+                        disabled={!approveClientId.trim()}
+                        sx={{ color: '#a3e635', border: '1px solid rgba(163,230,53,0.3)', textTransform: 'none', fontWeight: 600 }}
+                      >
+                        Approve
+                      </Button>
+                    </Box>
+                  </Box>
+                )}
+              </Box>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={4000}
+        onClose={() => setSnack({ ...snack, open: false })}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert
+          severity={snack.severity}
+          onClose={() => setSnack({ ...snack, open: false })}
+          sx={{
+            bgcolor: snack.severity === 'success' ? 'rgba(163,230,53,0.15)' : 'rgba(239,68,68,0.15)',
+            color: snack.severity === 'success' ? '#a3e635' : '#ef4444',
+            border: `1px solid ${snack.severity === 'success' ? 'rgba(163,230,53,0.3)' : 'rgba(239,68,68,0.3)'}`,
+          }}
+        >
+          {snack.message}
+        </Alert>
+      </Snackbar>
+    </Box>
+  );
+}
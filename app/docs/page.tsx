@@ -51,21 +51,21 @@ Response:
   "token_type": "Bearer",
   "expires_in": 900,
   "refresh_token": "eyJ...",
-  "scope": "openid profile email"
+  "scope": "openid profile email",
+  "id_token": "eyJ..."
 }
 
 ### Step 4 — Get user info
-GET https://accounts.elixpo.com/api/auth/me
+GET https://accounts.elixpo.com/api/auth/userinfo
 Authorization: Bearer ACCESS_TOKEN
 
-Response:
+Response (claims depend on granted scopes):
 {
-  "id": "user-uuid",
+  "sub": "user-uuid",
+  "name": "swift-falcon",
+  "picture": "https://...",
   "email": "user@example.com",
-  "displayName": "swift-falcon",
-  "isAdmin": false,
-  "provider": "email",
-  "emailVerified": true
+  "email_verified": true
 }
 
 ### Step 5 — Refresh tokens
@@ -177,24 +177,24 @@ The authorization code is **single-use** and expires after **10 minutes**.
   "token_type": "Bearer",
   "expires_in": 900,
   "refresh_token": "eyJ...",
-  "scope": "openid profile email"
+  "scope": "openid profile email",
+  "id_token": "eyJ..."
 }
 \`\`\``,
   },
   {
     id: 'userinfo',
     title: '5. Fetch User Profile',
-    code: `GET /api/auth/me
+    code: `GET /api/auth/userinfo
 Authorization: Bearer ACCESS_TOKEN`,
-    content: `**Response:**
+    content: `**Response** (claims depend on granted scopes):
 \`\`\`json
 {
-  "id": "user-uuid",
+  "sub": "user-uuid",
+  "name": "swift-falcon",
+  "picture": "https://...",
   "email": "user@example.com",
-  "displayName": "swift-falcon",
-  "isAdmin": false,
-  "provider": "email",
-  "emailVerified": true
+  "email_verified": true
 }
 \`\`\`
 
@@ -268,11 +268,11 @@ app.get('/callback', async (req, res) => {
 
   // 4. Fetch user profile
   const userRes = await fetch(
-    'https://accounts.elixpo.com/api/auth/me',
+    'https://accounts.elixpo.com/api/auth/userinfo',
     { headers: { Authorization: \`Bearer \${tokens.access_token}\` } }
   );
   const user = await userRes.json();
-  // user.id, user.email, user.displayName now available
+  // user.sub, user.email, user.name now available
 });`,
     content: '',
   },
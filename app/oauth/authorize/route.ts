@@ -1,10 +1,19 @@
 export const runtime = 'edge';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from '@/lib/jwt';
-import { getOAuthClientById, createAuthRequest } from '@/lib/db';
+import { verifyJWT, getSessionAudience } from '@/lib/jwt';
+import {
+  createAuthRequest,
+  getOAuthConsent,
+  setAuthRequestCode,
+  getPushedAuthorizationRequest,
+  consumePushedAuthorizationRequest,
+} from '@/lib/db';
 import { getDatabase } from '@/lib/d1-client';
+import { getAccountsSessionId, getSessionAuthTime } from '@/lib/accounts-session';
 import { generateUUID, generateRandomString } from '@/lib/webcrypto';
+import { validateAuthorizationRequest } from '@/lib/authorization-request';
+import { authorizationResponse } from '@/lib/authorization-response';
 
 /**
  * GET /oauth/authorize
@@ -17,144 +26,194 @@ import { generateUUID, generateRandomString } from '@/lib/webcrypto';
  *   &redirect_uri=<whitelisted_uri>
  *   &state=<csrf_state>
  *   &scope=openid profile email   (optional)
+ *   &code_challenge=<pkce_challenge>&code_challenge_method=S256
+ *                                 (RFC 7636; required for public clients)
+ *   &resource=<api_uri>           (RFC 8707; optional, may repeat)
+ *   &prompt=none|login|consent    (OIDC; optional)
+ *   &max_age=<seconds>            (OIDC; sign in again if the last sign-in is older)
+ *   &login_hint=<email>           (OIDC; pre-fills the login form)
+ *   &response_mode=query|fragment|form_post
+ *                                 (how the code or error is returned; default query)
+ *
+ * or, for a request pushed to /api/auth/par first (RFC 9126):
+ *   ?client_id=<registered_client_id>&request_uri=<urn from the PAR response>
  *
  * What this does:
  *   1. Validates the request parameters and the registered client
- *   2. If the user is not logged in → saves the request in a cookie and
- *      redirects them to /login?next=/oauth/authorize?... so they can
- *      authenticate first, then come back here
+ *   2. If the user is not logged in, or must sign in again for prompt=login or
+ *      max_age → redirects them to /login?next=/oauth/authorize?... so they
+ *      can authenticate first, then come back here
  *   3. If the user is logged in → stores the auth request in the DB and
- *      redirects to the /authorize consent screen
+ *      redirects to the /authorize consent screen, or straight back to the
+ *      client with a code when they already consented to every requested scope
+ *      (unless prompt=consent)
+ *
+ * prompt=none never shows UI: the client gets error=login_required or
+ * consent_required at its redirect_uri instead of a login or consent screen.
  */
-export async function GET(request: NextRequest) {
-  const sp = request.nextUrl.searchParams;
-  const responseType = sp.get('response_type');
-  const clientId = sp.get('client_id');
-  const redirectUri = sp.get('redirect_uri');
-  const state = sp.get('state');
-  const scope = sp.get('scope') || 'openid profile email';
-  const nonce = sp.get('nonce') || '';
-
-  // --- 1. Validate required params ---
-  if (!responseType || !clientId || !redirectUri || !state) {
-    return NextResponse.json(
-      {
-        error: 'invalid_request',
-        error_description:
-          'Missing required parameters: response_type, client_id, redirect_uri, state',
-      },
-      { status: 400 }
-    );
-  }
-
-  if (responseType !== 'code') {
-    return NextResponse.json(
-      {
-        error: 'unsupported_response_type',
-        error_description: 'Only response_type=code is supported',
-      },
-      { status: 400 }
-    );
-  }
-
-  // Validate redirect_uri is a well-formed URL (HTTP and HTTPS allowed)
-  let parsedRedirect: URL;
-  try {
-    parsedRedirect = new URL(redirectUri);
-    if (parsedRedirect.protocol !== 'https:' && parsedRedirect.protocol !== 'http:') {
-      throw new Error('HTTP or HTTPS required');
-    }
-  } catch {
-    return NextResponse.json(
-      {
-        error: 'invalid_request',
-        error_description: 'redirect_uri must be a valid absolute URL using HTTP or HTTPS',
-      },
-      { status: 400 }
-    );
-  }
 
-  // --- 2. Validate client ---
+// Set when prompt=login sends the user to sign in; a sign-in after it satisfies the prompt
+const REAUTH_COOKIE = 'oauth_reauth_at';
+export async function GET(request: NextRequest) {
   try {
     const db = await getDatabase();
-    const client = await getOAuthClientById(db, clientId) as any;
 
-    if (!client) {
-      return NextResponse.json(
-        { error: 'invalid_client', error_description: 'Client not found' },
-        { status: 401 }
-      );
+    // --- 1. Resolve the request: pushed (RFC 9126) or from the query string ---
+    let sp = request.nextUrl.searchParams;
+    const requestUri = sp.get('request_uri');
+    if (requestUri) {
+      const pushedClientId = sp.get('client_id');
+      if (!pushedClientId) {
+        return NextResponse.json(
+          { error: 'invalid_request', error_description: 'client_id is required with request_uri' },
+          { status: 400 }
+        );
+      }
+      const pushed = await getPushedAuthorizationRequest(db, requestUri) as any;
+      if (!pushed || pushed.client_id !== pushedClientId) {
+        return NextResponse.json(
+          { error: 'invalid_request_uri', error_description: 'request_uri is invalid, expired or already used' },
+          { status: 400 }
+        );
+      }
+      // §4: only the pushed parameters count; anything else in the query is ignored
+      sp = new URLSearchParams(pushed.params);
     }
 
-    if (!client.is_active) {
+    // --- 2. Validate params and client ---
+    const validation = await validateAuthorizationRequest(db, sp);
+    if (!validation.ok) {
+      if (validation.redirect) {
+        const { redirectUri, state, responseMode } = validation.redirect;
+        return authorizationResponse(
+          redirectUri,
+          { error: validation.error, error_description: validation.error_description, state },
+          responseMode
+        );
+      }
       return NextResponse.json(
-        { error: 'invalid_client', error_description: 'Client is not active' },
-        { status: 401 }
+        { error: validation.error, error_description: validation.error_description },
+        { status: validation.status }
       );
     }
+    const { client } = validation;
+    const {
+      responseType,
+      clientId,
+      redirectUri,
+      state,
+      scope,
+      requestedScopes,
+      nonce,
+      codeChallenge,
+      codeChallengeMethod,
+      resources,
+      prompt,
+      maxAge,
+      loginHint,
+      responseMode,
+    } = validation.request;
 
-    const allowedUris: string[] = JSON.parse(client.redirect_uris || '[]');
-    if (!allowedUris.includes(redirectUri)) {
+    if (client.require_pushed_authorization_requests && !requestUri) {
       return NextResponse.json(
         {
           error: 'invalid_request',
-          error_description: 'redirect_uri is not registered for this client',
+          error_description: 'This client must use pushed authorization requests',
         },
         { status: 400 }
       );
     }
 
+    // The client is verified, so errors from here on go back to its redirect_uri
+    const redirectWithError = (error: string, description: string) =>
+      authorizationResponse(redirectUri, { error, error_description: description, state }, responseMode);
+
     // --- 3. Check if user is authenticated ---
     const accessToken =
       request.cookies.get('access_token')?.value ||
       request.headers.get('authorization')?.replace('Bearer ', '');
 
-    if (!accessToken) {
-      // Not logged in — save the full authorize request in a cookie and
-      // send them to login. After login they'll be bounced back here.
-      const pendingParams = new URLSearchParams({
+    // Not logged in — carry the authorize request through the login `next`
+    // parameter (just the request_uri when it was pushed). After login they'll
+    // be bounced back here. `reauth` makes the login page ask for credentials
+    // even though a session exists.
+    const redirectToLogin = ({ reauth = false }: { reauth?: boolean } = {}) => {
+      if (prompt.includes('none')) {
+        return redirectWithError('login_required', 'The user must sign in');
+      }
+
+      const pendingParams = requestUri ? new URLSearchParams({ client_id: clientId, request_uri: requestUri }) : new URLSearchParams({
         response_type: responseType,
         client_id: clientId,
         redirect_uri: redirectUri,
         state,
         scope,
         ...(nonce ? { nonce } : {}),
+        ...(codeChallenge ? { code_challenge: codeChallenge, code_challenge_method: codeChallengeMethod } : {}),
+        ...(prompt.length ? { prompt: prompt.join(' ') } : {}),
+        ...(maxAge !== null ? { max_age: String(maxAge) } : {}),
+        ...(loginHint ? { login_hint: loginHint } : {}),
+        ...(responseMode !== 'query' ? { response_mode: responseMode } : {}),
       });
+      if (!requestUri) resources.forEach((resource) => pendingParams.append('resource', resource));
 
       const loginUrl = new URL('/login', request.url);
       loginUrl.searchParams.set(
         'next',
         `/oauth/authorize?${pendingParams.toString()}`
       );
+      if (loginHint) loginUrl.searchParams.set('login_hint', loginHint);
+      if (reauth) loginUrl.searchParams.set('reauth', '1');
 
-      return NextResponse.redirect(loginUrl);
+      const response = NextResponse.redirect(loginUrl);
+      if (prompt.includes('login')) {
+        response.cookies.set(REAUTH_COOKIE, String(Math.floor(Date.now() / 1000)), {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'lax',
+          maxAge: 10 * 60,
+          path: '/oauth/authorize',
+        });
+      }
+      return response;
+    };
+
+    if (!accessToken) {
+      return redirectToLogin();
     }
 
-    // Verify the token is valid
-    const payload = await verifyJWT(accessToken);
+    // Verify the token is valid — present but invalid/expired is the same as not logged in
+    const payload = await verifyJWT(accessToken, { audience: getSessionAudience() });
     if (!payload || payload.type !== 'access') {
-      // Token present but invalid/expired — same as not logged in
-      const pendingParams = new URLSearchParams({
-        response_type: responseType,
-        client_id: clientId,
-        redirect_uri: redirectUri,
-        state,
-        scope,
-        ...(nonce ? { nonce } : {}),
-      });
+      return redirectToLogin();
+    }
 
-      const loginUrl = new URL('/login', request.url);
-      loginUrl.searchParams.set(
-        'next',
-        `/oauth/authorize?${pendingParams.toString()}`
-      );
+    // OIDC auth_time: when the user signed in to this session
+    const authTime = await getSessionAuthTime(db, request, payload);
+    const now = Math.floor(Date.now() / 1000);
 
-      return NextResponse.redirect(loginUrl);
+    // prompt=login: a sign-in after we sent the user to the login page satisfies it
+    if (prompt.includes('login')) {
+      const reauthAt = parseInt(request.cookies.get(REAUTH_COOKIE)?.value || '', 10);
+      if (!(authTime >= reauthAt)) {
+        return redirectToLogin({ reauth: true });
+      }
+    }
+    if (maxAge !== null && now - authTime > maxAge) {
+      return redirectToLogin({ reauth: true });
     }
 
     // --- 4. Store the auth request in DB ---
+    if (requestUri && !(await consumePushedAuthorizationRequest(db, requestUri))) {
+      return NextResponse.json(
+        { error: 'invalid_request_uri', error_description: 'request_uri is invalid, expired or already used' },
+        { status: 400 }
+      );
+    }
+
+    const authRequestId = generateUUID();
     await createAuthRequest(db, {
-      id: generateUUID(),
+      id: authRequestId,
       state,
       nonce,
       pkceVerifier: generateRandomString(128),
@@ -162,18 +221,44 @@ export async function GET(request: NextRequest) {
       clientId,
       redirectUri,
       scopes: scope,
+      codeChallenge: codeChallenge || undefined,
+      codeChallengeMethod: codeChallenge ? (codeChallengeMethod as 'S256' | 'plain') : undefined,
+      resources,
+      responseMode,
       expiresAt: new Date(Date.now() + 10 * 60 * 1000), // 10 min
     });
 
-    // --- 5. Redirect to the consent screen ---
+    // --- 5. Skip consent when a remembered grant already covers the requested scopes and resources ---
+    const consent = await getOAuthConsent(db, payload.sub, clientId) as any;
+    const consentedResources: string[] = JSON.parse(consent?.resources || '[]');
+    const hasConsent = !!consent
+      && requestedScopes.every((s) => consent.scopes.split(' ').includes(s))
+      && resources.every((r) => consentedResources.includes(r));
+    if (hasConsent && !prompt.includes('consent')) {
+      const code = `code_${generateRandomString(32)}`;
+      await setAuthRequestCode(db, authRequestId, {
+        code,
+        userId: payload.sub,
+        authTime,
+        sessionId: await getAccountsSessionId(db, request),
+      });
+
+      const response = authorizationResponse(redirectUri, { code, state }, responseMode);
+      response.cookies.delete({ name: REAUTH_COOKIE, path: '/oauth/authorize' });
+      return response;
+    }
+    if (prompt.includes('none')) {
+      return redirectWithError('consent_required', 'The user has not consented to the requested scopes');
+    }
+
+    // --- 6. Redirect to the consent screen ---
     const consentUrl = new URL('/authorize', request.url);
-    consentUrl.searchParams.set('client_id', clientId);
-    consentUrl.searchParams.set('redirect_uri', redirectUri);
-    consentUrl.searchParams.set('state', state);
-    consentUrl.searchParams.set('scope', scope);
-    if (nonce) consentUrl.searchParams.set('nonce', nonce);
+    // Only the opaque id: the consent screen loads what it shows from the stored request
+    consentUrl.searchParams.set('request_id', authRequestId);
 
-    return NextResponse.redirect(consentUrl);
+    const response = NextResponse.redirect(consentUrl);
+    response.cookies.delete({ name: REAUTH_COOKIE, path: '/oauth/authorize' });
+    return response;
   } catch (err) {
     console.error('[OAuth Authorize] Error:', err);
     return NextResponse.json(
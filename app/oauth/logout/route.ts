@@ -0,0 +1,173 @@
+export const runtime = 'edge';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyIdTokenHint } from '@/lib/jwt';
+import {
+  getOAuthClientByIdWithSecret,
+  revokeRefreshTokenGrant,
+  revokeUserClientRefreshTokens,
+} from '@/lib/db';
+import { endAccountsSession, getAccountsSession } from '@/lib/accounts-session';
+import { getDatabase } from '@/lib/d1-client';
+import { getIssuer } from '@/lib/oidc';
+import { escapeHtml } from '@/lib/authorization-response';
+
+const AUTH_COOKIES = ['access_token', 'refresh_token', 'user_id', 'oauth_state', 'oauth_pkce_verifier'];
+
+function invalidRequest(description: string) {
+  return NextResponse.json({ error: 'invalid_request', error_description: description }, { status: 400 });
+}
+
+/** A confirmed logout is POSTed from our own confirmation page */
+function isConfirmed(request: NextRequest, params: URLSearchParams): boolean {
+  const sameOrigin = request.headers.get('sec-fetch-site') === 'same-origin'
+    || request.headers.get('origin') === request.nextUrl.origin;
+  return request.method === 'POST' && params.get('confirm') === '1' && sameOrigin;
+}
+
+/**
+ * §2: without an id_token_hint for the signed-in user the request may not come
+ * from a relying party they use, so the user confirms before signing out.
+ */
+function confirmationPage(params: URLSearchParams) {
+  const inputs = ['id_token_hint', 'client_id', 'post_logout_redirect_uri', 'state']
+    .filter((name) => params.get(name))
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) as string)}"/>`)
+    .join('\n      ');
+  const html = `<!DOCTYPE html>
+<html>
+  <head><title>Sign out</title></head>
+  <body style="background:#0f0f0f;color:#f5f5f4;font-family:system-ui,sans-serif;display:flex;justify-content:center;padding-top:15vh">
+    <form method="post" action="/oauth/logout">
+      <p>Do you want to sign out of your Elixpo account?</p>
+      ${inputs}
+      <input type="hidden" name="confirm" value="1"/>
+      <button type="submit">Sign out</button>
+    </form>
+  </body>
+</html>`;
+  return new NextResponse(html, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'; frame-ancestors 'none'",
+    },
+  });
+}
+
+/**
+ * GET|POST /oauth/logout
+ *
+ * OpenID Connect RP-Initiated Logout 1.0 (the discovery end_session_endpoint)
+ *
+ * Relying parties send the user here with:
+ *   ?id_token_hint=<id_token issued to the client>   (recommended)
+ *   &client_id=<client_id>                           (required without id_token_hint)
+ *   &post_logout_redirect_uri=<registered logout URI> (optional)
+ *   &state=<opaque value>                            (optional, echoed back)
+ *
+ * What this does:
+ *   1. Validates the hint and that post_logout_redirect_uri is registered on
+ *      the client, so the endpoint cannot be used as an open redirect
+ *   2. Unless the id_token_hint was issued to the signed-in user, asks the
+ *      user to confirm, so a cross-site link (even one carrying someone
+ *      else's old ID token) can't sign them out
+ *   3. Revokes the refresh tokens of the session named by the hint's `sid`
+ *      (hints without one revoke the user's tokens for that client), only
+ *      when the hint belongs to the signed-in user
+ *   4. Ends the accounts.elixpo session, which sends back-channel logout
+ *      tokens to the clients approved in that session and revokes their
+ *      refresh tokens; the user's other devices stay signed in
+ *   5. Redirects to the logout URI, or to /login when none was given
+ */
+async function endSession(request: NextRequest, params: URLSearchParams) {
+  const idTokenHint = params.get('id_token_hint');
+  const clientIdParam = params.get('client_id');
+  const postLogoutRedirectUri = params.get('post_logout_redirect_uri');
+  const state = params.get('state');
+  const issuer = getIssuer();
+
+  const db = await getDatabase();
+
+  const hint = idTokenHint ? await verifyIdTokenHint(idTokenHint, issuer) : null;
+  if (idTokenHint && (!hint || !(await getOAuthClientByIdWithSecret(db, hint.aud)))) {
+    return invalidRequest('id_token_hint is not a valid ID token issued by this server');
+  }
+  if (hint && clientIdParam && hint.aud !== clientIdParam) {
+    return invalidRequest('client_id does not match the audience of id_token_hint');
+  }
+
+  const clientId = clientIdParam || hint?.aud;
+
+  // --- Validate the logout redirect against the client's registration ---
+  let redirectTarget = new URL('/login', request.nextUrl.origin);
+  if (postLogoutRedirectUri) {
+    if (!clientId) {
+      return invalidRequest('client_id or id_token_hint is required with post_logout_redirect_uri');
+    }
+
+    const client = await getOAuthClientByIdWithSecret(db, clientId) as any;
+    if (!client || !client.is_active) {
+      return invalidRequest('Unknown or inactive client_id');
+    }
+
+    const registeredUris: string[] = JSON.parse(client.post_logout_redirect_uris || '[]');
+    if (!registeredUris.includes(postLogoutRedirectUri)) {
+      return invalidRequest('post_logout_redirect_uri is not registered for this client');
+    }
+
+    redirectTarget = new URL(postLogoutRedirectUri);
+    if (state) redirectTarget.searchParams.set('state', state);
+  }
+
+  // The hint only vouches for the request when it names the user signed in here
+  const session = await getAccountsSession(db, request);
+  const sessionHint = hint && session?.userId === hint.sub ? hint : null;
+  if (!sessionHint && !isConfirmed(request, params)) {
+    return confirmationPage(params);
+  }
+
+  // --- End the relying party's session ---
+  try {
+    if (sessionHint?.sid) {
+      await revokeRefreshTokenGrant(db, sessionHint.sid);
+    } else if (sessionHint) {
+      await revokeUserClientRefreshTokens(db, sessionHint.sub, sessionHint.aud);
+    }
+
+    const refreshToken = request.cookies.get('refresh_token')?.value;
+    if (refreshToken) {
+      await endAccountsSession(db, issuer, refreshToken);
+    }
+  } catch (error) {
+    console.error('[Logout] Error revoking tokens:', error);
+    // Still clear cookies and redirect — the user asked to be logged out
+  }
+
+  if (sessionHint) {
+    console.log(`[Logout] RP-initiated logout for user ${sessionHint.sub} from client ${sessionHint.aud}`);
+  }
+
+  // --- End the accounts.elixpo session ---
+  const response = NextResponse.redirect(redirectTarget.toString());
+  for (const name of AUTH_COOKIES) {
+    response.cookies.set(name, '', {
+      httpOnly: name !== 'user_id',
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 0,
+      path: '/',
+    });
+  }
+  return response;
+}
+
+export async function GET(request: NextRequest) {
+  return endSession(request, request.nextUrl.searchParams);
+}
+
+export async function POST(request: NextRequest) {
+  const form = new URLSearchParams(await request.text());
+  return endSession(request, form);
+}
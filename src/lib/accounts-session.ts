@@ -0,0 +1,59 @@
+/**
+ * Accounts sessions
+ * Signing in to accounts.elixpo starts a refresh token family, whose id names
+ * the session. OAuth grants the user approves while signed in are bound to
+ * it, so signing out ends them too, without touching the user's other devices.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { D1Database } from '@cloudflare/workers-types';
+import { getRefreshTokenByHash, revokeAccountsSessionRefreshTokens, revokeRefreshToken } from './db';
+import { notifyBackchannelLogout } from './backchannel-logout';
+import { hashString } from './webcrypto';
+
+/** The accounts session of the request's refresh_token cookie, its user and sign-in time, if it is live */
+export async function getAccountsSession(
+  db: D1Database,
+  request: NextRequest
+): Promise<{ id: string; userId: string; authTime: number | null } | null> {
+  const refreshToken = request.cookies.get('refresh_token')?.value;
+  if (!refreshToken) return null;
+  const tokenRecord = await getRefreshTokenByHash(db, await hashString(refreshToken)) as any;
+  if (!tokenRecord || tokenRecord.client_id) return null;
+  return { id: tokenRecord.family_id, userId: tokenRecord.user_id, authTime: tokenRecord.auth_time ?? null };
+}
+
+export async function getAccountsSessionId(db: D1Database, request: NextRequest): Promise<string | null> {
+  return (await getAccountsSession(db, request))?.id ?? null;
+}
+
+/**
+ * OIDC auth_time: when the user signed in to this session, not when its tokens
+ * were refreshed or when they last signed in on another device. Falls back to
+ * the access token's issue time when there is no session to go by.
+ */
+export async function getSessionAuthTime(
+  db: D1Database,
+  request: NextRequest,
+  accessToken: { sub: string; iat: number }
+): Promise<number> {
+  const session = await getAccountsSession(db, request);
+  return (session?.userId === accessToken.sub && session.authTime) || accessToken.iat;
+}
+
+/**
+ * Sign out: revoke the refresh token and, when it belongs to an accounts
+ * session, send back-channel logout to the clients whose grants were approved
+ * in that session and revoke the session's and those grants' refresh tokens.
+ */
+export async function endAccountsSession(db: D1Database, issuer: string, refreshToken: string): Promise<void> {
+  const tokenHash = await hashString(refreshToken);
+  const tokenRecord = await getRefreshTokenByHash(db, tokenHash) as any;
+  await revokeRefreshToken(db, tokenHash);
+
+  if (tokenRecord && !tokenRecord.client_id) {
+    const sessionId: string = tokenRecord.family_id;
+    await notifyBackchannelLogout(db, issuer, tokenRecord.user_id, { sessionId });
+    await revokeAccountsSessionRefreshTokens(db, sessionId);
+  }
+}
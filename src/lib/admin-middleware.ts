@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from './jwt';
+import { verifyJWT, getSessionAudience } from './jwt';
 import { getUserById } from './db';
 import { getDatabase } from './d1-client';
 
@@ -23,7 +23,7 @@ export async function verifyAdminSession(
       return null;
     }
 
-    const payload = await verifyJWT(token);
+    const payload = await verifyJWT(token, { audience: getSessionAudience() });
     if (!payload || payload.type !== 'access') {
       return null;
     }
@@ -0,0 +1,74 @@
+/**
+ * Authorization code replay detection (RFC 6749 §4.1.2, §10.5)
+ * Codes are single-use. A code presented after it was redeemed has been seen
+ * by a second party — intercepted from the redirect or from logs — so the
+ * refresh tokens issued for the first redemption are revoked as well.
+ *
+ * Access tokens are stateless JWTs and are not tied to a grant record, so the
+ * ones already issued from the first redemption stay valid (and introspect as
+ * active) until they expire; the access token lifetime bounds that window.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { D1Database } from '@cloudflare/workers-types';
+import { getOAuthClientById, logAuditEvent, revokeRefreshTokensByAuthRequest } from './db';
+import { createAdminNotification } from './admin-notifications';
+import { generateUUID } from './webcrypto';
+
+/**
+ * Call when an authorization code is not found among the unused ones. Returns
+ * true when it had already been redeemed; the refresh tokens issued from it
+ * are then revoked, the replay is audited and admins are notified.
+ */
+export async function detectAuthorizationCodeReplay(
+  db: D1Database,
+  request: NextRequest,
+  code: string,
+  presentingClientId: string
+): Promise<boolean> {
+  const authRequest = await db.prepare(
+    'SELECT id, user_id, client_id FROM auth_requests WHERE code = ? AND used = 1'
+  ).bind(code).first() as any;
+  if (!authRequest) return false;
+
+  const revoked = await revokeRefreshTokensByAuthRequest(db, authRequest.id);
+  const revokedCount = revoked.meta.changes ?? 0;
+
+  const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+                    request.headers.get('cf-connecting-ip') || 'unknown';
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  console.warn(`[Token] Authorization code replayed for auth request ${authRequest.id}; revoked ${revokedCount} refresh tokens`);
+
+  try {
+    await logAuditEvent(db, {
+      id: generateUUID(),
+      userId: authRequest.user_id || undefined,
+      eventType: 'authorization_code_replay',
+      provider: authRequest.client_id,
+      ipAddress,
+      userAgent,
+      status: 'failure',
+      errorMessage: `Used authorization code presented again by client ${presentingClientId}; revoked ${revokedCount} refresh tokens`,
+    });
+  } catch (error) {
+    console.error('[Token] Failed to write audit log:', error);
+  }
+
+  try {
+    const client = await getOAuthClientById(db, authRequest.client_id) as any;
+    await createAdminNotification(
+      db,
+      'authorization_code_replay',
+      'Possible authorization code interception',
+      `An authorization code issued to ${client?.name || authRequest.client_id} was redeemed twice ` +
+        `(second attempt from ${ipAddress}). ${revokedCount} refresh tokens from the first redemption were revoked.`,
+      authRequest.client_id,
+      'oauth_client'
+    );
+  } catch (error) {
+    console.error('[Token] Failed to create admin notification:', error);
+  }
+
+  return true;
+}
@@ -0,0 +1,177 @@
+/**
+ * Authorization request validation (RFC 6749 §4.1.1)
+ * Shared by /oauth/authorize and the pushed authorization request endpoint,
+ * which must check pushed parameters exactly as the authorize endpoint would.
+ */
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { getOAuthClientById } from './db';
+import { findInvalidResource } from './oidc';
+import { findReservedResource } from './jwt';
+import { getApplicationType, matchesRegisteredRedirectUri } from './redirect-uri';
+import { RESPONSE_MODES, type ResponseMode } from './authorization-response';
+import { findUnavailableScopes } from './scopes';
+import { isValidPKCEValue } from './webcrypto';
+
+export interface AuthorizationRequest {
+  responseType: string;
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  scope: string;
+  requestedScopes: string[];
+  nonce: string;
+  codeChallenge: string;
+  codeChallengeMethod: string;
+  resources: string[];
+  /** OIDC Core §3.1.2.1: none, login, consent */
+  prompt: string[];
+  /** Seconds since the user last signed in beyond which they must sign in again */
+  maxAge: number | null;
+  loginHint: string;
+  responseMode: ResponseMode;
+}
+
+const SUPPORTED_PROMPTS = ['none', 'login', 'consent'];
+
+/** Where an error may be sent once the client and redirect_uri check out (RFC 6749 §4.1.2.1) */
+export interface ErrorRedirect {
+  redirectUri: string;
+  state: string;
+  responseMode: ResponseMode;
+}
+
+export type AuthorizationRequestResult =
+  | { ok: true; client: any; request: AuthorizationRequest }
+  | { ok: false; status: number; error: string; error_description: string; redirect?: ErrorRedirect };
+
+function fail(
+  status: number,
+  error: string,
+  error_description: string,
+  redirect?: ErrorRedirect
+): AuthorizationRequestResult {
+  return { ok: false, status, error, error_description, ...(redirect && { redirect }) };
+}
+
+/**
+ * Validate authorization parameters against the registered client. Until the
+ * client and redirect_uri check out there is nowhere safe to send an error;
+ * failures after that carry `redirect`, and the authorize endpoint returns
+ * them to the client's redirect_uri.
+ */
+export async function validateAuthorizationRequest(
+  db: D1Database,
+  params: URLSearchParams
+): Promise<AuthorizationRequestResult> {
+  const responseType = params.get('response_type');
+  const clientId = params.get('client_id');
+  const redirectUri = params.get('redirect_uri');
+  const state = params.get('state');
+  const scope = params.get('scope') || 'openid profile email';
+  const nonce = params.get('nonce') || '';
+  const codeChallenge = params.get('code_challenge') || '';
+  const codeChallengeMethod = params.get('code_challenge_method') || (codeChallenge ? 'plain' : '');
+  const resources = params.getAll('resource');
+  const prompt = (params.get('prompt') || '').split(' ').filter(Boolean);
+  const maxAgeParam = params.get('max_age');
+  const loginHint = params.get('login_hint') || '';
+  const responseMode = params.get('response_mode') || 'query';
+
+  if (!responseType || !clientId || !redirectUri || !state) {
+    return fail(400, 'invalid_request', 'Missing required parameters: response_type, client_id, redirect_uri, state');
+  }
+
+  if (responseType !== 'code') {
+    return fail(400, 'unsupported_response_type', 'Only response_type=code is supported');
+  }
+
+  if (codeChallenge) {
+    if (codeChallengeMethod !== 'S256' && codeChallengeMethod !== 'plain') {
+      return fail(400, 'invalid_request', 'code_challenge_method must be S256 or plain');
+    }
+    if (!isValidPKCEValue(codeChallenge)) {
+      return fail(400, 'invalid_request', 'code_challenge must be 43-128 characters of [A-Z a-z 0-9 - . _ ~]');
+    }
+  } else if (codeChallengeMethod) {
+    return fail(400, 'invalid_request', 'code_challenge_method was sent without a code_challenge');
+  }
+
+  if (!RESPONSE_MODES.includes(responseMode as ResponseMode)) {
+    return fail(400, 'invalid_request', `response_mode must be one of: ${RESPONSE_MODES.join(', ')}`);
+  }
+
+  const unsupportedPrompt = prompt.find((value) => !SUPPORTED_PROMPTS.includes(value));
+  if (unsupportedPrompt) {
+    return fail(400, 'invalid_request', `Unsupported prompt value: ${unsupportedPrompt}`);
+  }
+  if (prompt.includes('none') && prompt.length > 1) {
+    return fail(400, 'invalid_request', 'prompt=none cannot be combined with other values');
+  }
+
+  let maxAge: number | null = null;
+  if (maxAgeParam !== null) {
+    if (!/^\d+$/.test(maxAgeParam)) {
+      return fail(400, 'invalid_request', 'max_age must be a non-negative integer number of seconds');
+    }
+    maxAge = parseInt(maxAgeParam, 10);
+  }
+
+  const invalidResource = findInvalidResource(resources);
+  if (invalidResource) {
+    return fail(400, 'invalid_target', `resource must be an absolute URI without a fragment: ${invalidResource}`);
+  }
+  const reservedResource = findReservedResource(resources);
+  if (reservedResource) {
+    return fail(400, 'invalid_target', `resource is reserved for first-party tokens: ${reservedResource}`);
+  }
+
+  const client = await getOAuthClientById(db, clientId) as any;
+  if (!client) {
+    return fail(401, 'invalid_client', 'Client not found');
+  }
+  if (!client.is_active) {
+    return fail(401, 'invalid_client', 'Client is not active');
+  }
+
+  // Exact match, except a native app's loopback redirect may use any port (RFC 8252 §7.3)
+  const allowedUris: string[] = JSON.parse(client.redirect_uris || '[]');
+  if (!matchesRegisteredRedirectUri(allowedUris, redirectUri, getApplicationType(client))) {
+    return fail(400, 'invalid_request', 'redirect_uri is not registered for this client');
+  }
+
+  const redirect: ErrorRedirect = { redirectUri, state, responseMode: responseMode as ResponseMode };
+
+  // Only scopes registered on the client may be requested
+  const requestedScopes = scope.split(' ').filter(Boolean);
+  const unavailableScopes = await findUnavailableScopes(db, client, requestedScopes);
+  if (unavailableScopes.length > 0) {
+    return fail(400, 'invalid_scope', `Scopes not available to this client: ${unavailableScopes.join(', ')}`, redirect);
+  }
+
+  // Public clients have no secret, so PKCE is the only proof at the token endpoint
+  if (client.is_public && !codeChallenge) {
+    return fail(400, 'invalid_request', 'code_challenge is required for public clients', redirect);
+  }
+
+  return {
+    ok: true,
+    client,
+    request: {
+      responseType,
+      clientId,
+      redirectUri,
+      state,
+      scope,
+      requestedScopes,
+      nonce,
+      codeChallenge,
+      codeChallengeMethod,
+      resources,
+      prompt,
+      maxAge,
+      loginHint,
+      responseMode: responseMode as ResponseMode,
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Authorization response delivery (OAuth 2.0 Multiple Response Type Encoding
+ * Practices §2.1, OAuth 2.0 Form Post Response Mode)
+ * The code or error goes back to the client in the redirect_uri query string
+ * (default), in its fragment, or as an auto-submitting form POSTed to it, so
+ * it never appears in a URL that proxies might log.
+ */
+
+import { NextResponse } from 'next/server';
+
+export const RESPONSE_MODES = ['query', 'fragment', 'form_post'] as const;
+export type ResponseMode = (typeof RESPONSE_MODES)[number];
+
+export function getResponseMode(value: unknown): ResponseMode {
+  return RESPONSE_MODES.includes(value as ResponseMode) ? value as ResponseMode : 'query';
+}
+
+/** The redirect_uri with the response parameters added, for query and fragment */
+export function buildAuthorizationResponseUrl(
+  redirectUri: string,
+  params: Record<string, string>,
+  mode: Exclude<ResponseMode, 'form_post'>
+): string {
+  const url = new URL(redirectUri);
+  if (mode === 'fragment') {
+    url.hash = new URLSearchParams(params).toString();
+  } else {
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+  }
+  return url.toString();
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formPostHtml(redirectUri: string, params: Record<string, string>): string {
+  const inputs = Object.entries(params)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}"/>`)
+    .join('\n      ');
+  return `<!DOCTYPE html>
+<html>
+  <head><title>Submit This Form</title></head>
+  <body onload="javascript:document.forms[0].submit()">
+    <form method="post" action="${escapeHtml(redirectUri)}">
+      ${inputs}
+      <noscript><button type="submit">Continue</button></noscript>
+    </form>
+  </body>
+</html>`;
+}
+
+/** Send the authorization response to the client in the requested mode */
+export function authorizationResponse(
+  redirectUri: string,
+  params: Record<string, string>,
+  mode: ResponseMode
+): NextResponse {
+  if (mode === 'form_post') {
+    return new NextResponse(formPostHtml(redirectUri, params), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        // Only the inline submit may run; form-action doesn't fall back to default-src
+        'Content-Security-Policy': "default-src 'none'; script-src 'unsafe-inline'",
+      },
+    });
+  }
+  return NextResponse.redirect(buildAuthorizationResponseUrl(redirectUri, params, mode));
+}
+
+/**
+ * The same response for the consent page, which completes the flow in the
+ * browser: it navigates to `redirect_uri`, or for form_post submits
+ * `parameters` to it.
+ */
+export function authorizationResponseJson(
+  redirectUri: string,
+  params: Record<string, string>,
+  mode: ResponseMode
+): { redirect_uri: string; response_mode: ResponseMode; parameters?: Record<string, string> } {
+  if (mode === 'form_post') {
+    return { redirect_uri: redirectUri, response_mode: mode, parameters: params };
+  }
+  return { redirect_uri: buildAuthorizationResponseUrl(redirectUri, params, mode), response_mode: mode };
+}
@@ -0,0 +1,124 @@
+/**
+ * OpenID Connect Back-Channel Logout 1.0
+ * Tells relying parties that a user's session ended so they can drop their own
+ */
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { createLogoutToken } from './jwt';
+import {
+  createBackchannelLogoutDelivery,
+  getBackchannelLogoutSessions,
+  updateBackchannelLogoutDelivery,
+} from './db';
+import { generateUUID } from './webcrypto';
+
+const MAX_ATTEMPTS = 3;
+
+interface LogoutNotification {
+  deliveryId: string;
+  issuer: string;
+  clientId: string;
+  userId: string;
+  sessionId?: string;
+  logoutUri: string;
+}
+
+/**
+ * Send a logout token for every session the user has with a client that
+ * registered a backchannel_logout_uri — or, given an accounts `sessionId`,
+ * only for the grants approved in that session. Call before revoking the
+ * refresh tokens — the live tokens are what identify the sessions.
+ */
+export async function notifyBackchannelLogout(
+  db: D1Database,
+  issuer: string,
+  userId: string,
+  { sessionId }: { sessionId?: string } = {}
+): Promise<void> {
+  try {
+    const sessions = await getBackchannelLogoutSessions(db, userId, sessionId);
+
+    await Promise.all(sessions.map(async (session) => {
+      const notification: LogoutNotification = {
+        deliveryId: generateUUID(),
+        issuer,
+        clientId: session.client_id,
+        userId,
+        sessionId: session.grant_id ?? undefined,
+        logoutUri: session.backchannel_logout_uri,
+      };
+      await createBackchannelLogoutDelivery(db, {
+        id: notification.deliveryId,
+        clientId: notification.clientId,
+        userId,
+        sid: notification.sessionId,
+        logoutUri: notification.logoutUri,
+      });
+      await deliverLogoutToken(db, notification);
+    }));
+  } catch (error) {
+    console.error('[Backchannel Logout] Error notifying clients:', error);
+  }
+}
+
+/**
+ * POST the logout token (§2.5) and record the outcome. Each attempt signs a
+ * fresh token, since tokens live for two minutes and retries back off longer.
+ */
+async function deliverLogoutToken(
+  db: D1Database,
+  notification: LogoutNotification,
+  attemptCount: number = 1
+): Promise<void> {
+  let statusCode: number | undefined;
+  let errorMessage: string | undefined;
+
+  try {
+    const logoutToken = await createLogoutToken({
+      issuer: notification.issuer,
+      clientId: notification.clientId,
+      userId: notification.userId,
+      sessionId: notification.sessionId,
+    });
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+
+    const response = await fetch(notification.logoutUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ logout_token: logoutToken }).toString(),
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+
+    clearTimeout(timeout);
+
+    statusCode = response.status;
+    if (!response.ok) errorMessage = `HTTP ${response.status}`;
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const delivered = !errorMessage;
+  const willRetry = !delivered && attemptCount < MAX_ATTEMPTS;
+
+  await updateBackchannelLogoutDelivery(db, notification.deliveryId, {
+    status: delivered ? 'delivered' : willRetry ? 'pending' : 'failed',
+    attemptCount,
+    statusCode,
+    errorMessage,
+  });
+
+  if (willRetry) {
+    // Exponential backoff: 5s, 25s
+    const backoffMs = Math.pow(5, attemptCount) * 1000;
+    setTimeout(() => {
+      deliverLogoutToken(db, notification, attemptCount + 1).catch((error) => {
+        console.error('[Backchannel Logout] Retry failed:', error);
+      });
+    }, backoffMs);
+  } else if (!delivered) {
+    console.error(`[Backchannel Logout] Giving up on ${notification.clientId} after ${attemptCount} attempts: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * OAuth Client Authentication
+ * Shared by the token, introspection, revocation and device authorization endpoints
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeJwt } from 'jose';
+import type { D1Database } from '@cloudflare/workers-types';
+import { verifyClientAssertion } from './jwt';
+import { getOAuthClientByIdWithSecret, recordClientAssertionJti } from './db';
+import { verifyClientSecret } from './client-secrets';
+import { getIssuer } from './oidc';
+
+export const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+export const TOKEN_ENDPOINT_AUTH_METHODS = ['client_secret_basic', 'client_secret_post', 'private_key_jwt', 'none'] as const;
+export type TokenEndpointAuthMethod = (typeof TOKEN_ENDPOINT_AUTH_METHODS)[number];
+
+/**
+ * Read an OAuth request body. RFC 6749 endpoints take
+ * application/x-www-form-urlencoded; JSON is accepted for existing integrations.
+ */
+export async function parseOAuthRequestBody(request: NextRequest): Promise<Record<string, any>> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const form = new URLSearchParams(await request.text());
+    const body: Record<string, any> = Object.fromEntries(form.entries());
+    // RFC 8707 `resource` and RFC 8693 `audience` are the parameters that may repeat
+    for (const name of ['resource', 'audience']) {
+      const values = form.getAll(name);
+      if (values.length > 1) body[name] = values;
+    }
+    return body;
+  }
+
+  return (await request.json().catch(() => ({}))) as Record<string, any>;
+}
+
+/**
+ * Client credentials from HTTP Basic (client_secret_basic), a signed client
+ * assertion (private_key_jwt) or the body (client_secret_post)
+ */
+export function extractClientCredentials(
+  request: NextRequest,
+  body: Record<string, any>
+): { clientId?: string; clientSecret?: string; clientAssertion?: string; method: TokenEndpointAuthMethod } {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Basic ')) {
+    try {
+      const decoded = atob(authHeader.substring(6));
+      const separator = decoded.indexOf(':');
+      if (separator !== -1) {
+        return {
+          clientId: decodeURIComponent(decoded.substring(0, separator)),
+          clientSecret: decodeURIComponent(decoded.substring(separator + 1)),
+          method: 'client_secret_basic',
+        };
+      }
+    } catch {
+      // Malformed header — fall through to body credentials
+    }
+  }
+
+  if (body.client_assertion_type === CLIENT_ASSERTION_TYPE && body.client_assertion) {
+    // client_id is optional with an assertion; the assertion's sub names the client
+    let clientId = body.client_id;
+    if (!clientId) {
+      try {
+        clientId = decodeJwt(body.client_assertion).sub;
+      } catch {
+        // Left undefined — rejected as missing client authentication
+      }
+    }
+    return { clientId, clientAssertion: body.client_assertion, method: 'private_key_jwt' };
+  }
+
+  if (body.client_secret) {
+    return { clientId: body.client_id, clientSecret: body.client_secret, method: 'client_secret_post' };
+  }
+
+  return { clientId: body.client_id, method: 'none' };
+}
+
+/**
+ * The method a client must use. Clients registered before the column existed
+ * may use either secret method.
+ */
+function getRegisteredAuthMethods(client: any): TokenEndpointAuthMethod[] {
+  if (client.token_endpoint_auth_method) return [client.token_endpoint_auth_method];
+  return client.is_public ? ['none'] : ['client_secret_basic', 'client_secret_post'];
+}
+
+function invalidClient(description: string, usedBasic: boolean) {
+  return NextResponse.json(
+    { error: 'invalid_client', error_description: description },
+    {
+      status: 401,
+      ...(usedBasic && { headers: { 'WWW-Authenticate': 'Basic realm="elixpo-accounts"' } }),
+    }
+  );
+}
+
+/**
+ * Authenticate a client with its registered token_endpoint_auth_method
+ * (RFC 6749 §2.3, RFC 7523 §2.2). With `allowPublic`, public clients may
+ * identify themselves by client_id alone.
+ */
+export async function authenticateClient(
+  db: D1Database,
+  request: NextRequest,
+  body: Record<string, any>,
+  { allowPublic = false }: { allowPublic?: boolean } = {}
+): Promise<{ client: any; error: NextResponse | null }> {
+  const { clientId, clientSecret, clientAssertion, method } = extractClientCredentials(request, body);
+  const usedBasic = method === 'client_secret_basic';
+
+  if (!clientId) {
+    return { client: null, error: invalidClient('Client authentication is required', usedBasic) };
+  }
+
+  const client = await getOAuthClientByIdWithSecret(db, clientId) as any;
+  if (!client || !client.is_active) {
+    return { client: null, error: invalidClient('Client not found', usedBasic) };
+  }
+
+  if (!getRegisteredAuthMethods(client).includes(method)) {
+    if (method === 'none') {
+      return { client: null, error: invalidClient('Client authentication is required', usedBasic) };
+    }
+    return { client: null, error: invalidClient(`Client is not registered for ${method}`, usedBasic) };
+  }
+
+  if (method === 'none') {
+    if (allowPublic) {
+      return { client, error: null };
+    }
+    return { client: null, error: invalidClient('Public clients cannot use this endpoint', usedBasic) };
+  }
+
+  if (method === 'private_key_jwt') {
+    const issuer = getIssuer();
+    const assertion = await verifyClientAssertion(clientAssertion!, {
+      clientId,
+      audience: [issuer, `${issuer}/api/auth/token`, `${issuer}${request.nextUrl.pathname}`],
+      jwksUri: client.jwks_uri,
+      jwks: client.jwks,
+    });
+    if (!assertion) {
+      return { client: null, error: invalidClient('Invalid client assertion', usedBasic) };
+    }
+    const isFirstUse = await recordClientAssertionJti(db, {
+      clientId,
+      jti: assertion.jti,
+      expiresAt: new Date(assertion.exp * 1000),
+    });
+    if (!isFirstUse) {
+      return { client: null, error: invalidClient('Client assertion has already been used', usedBasic) };
+    }
+    return { client, error: null };
+  }
+
+  const isValidSecret = await verifyClientSecret(db, clientId, clientSecret!);
+  if (!isValidSecret) {
+    return { client: null, error: invalidClient('Invalid client credentials', usedBasic) };
+  }
+
+  return { client, error: null };
+}
@@ -0,0 +1,197 @@
+/**
+ * Dynamic Client Registration (RFC 7591) and Client Management (RFC 7592)
+ * Metadata validation and response formatting shared by both endpoints
+ */
+
+import { NextResponse } from 'next/server';
+import type { D1Database } from '@cloudflare/workers-types';
+import { SUPPORTED_GRANT_TYPES, SUPPORTED_SCOPES, toEpochSeconds } from './oidc';
+import { TOKEN_ENDPOINT_AUTH_METHODS, type TokenEndpointAuthMethod } from './client-auth';
+import { findUnknownScopes } from './scopes';
+import { APPLICATION_TYPES, findRedirectUriError, type ApplicationType } from './redirect-uri';
+
+export interface ClientMetadata {
+  applicationType: ApplicationType;
+  redirectUris: string[];
+  clientName: string;
+  logoUri?: string;
+  clientUri?: string;
+  grantTypes: string[];
+  tokenEndpointAuthMethod: TokenEndpointAuthMethod;
+  jwksUri?: string;
+  jwks?: string; // JSON
+  postLogoutRedirectUris: string[];
+  backchannelLogoutUri?: string;
+  requirePushedAuthorizationRequests: boolean;
+  scopes: string[];
+}
+
+/** RFC 7591 §3.2.2 error response */
+export function registrationError(error: string, description: string, status: number = 400) {
+  return NextResponse.json({ error, error_description: description }, { status });
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/** Grant types for clients that registered none (and for dashboard-created clients) */
+export const DEFAULT_GRANT_TYPES = ['authorization_code', 'refresh_token'];
+
+/**
+ * Validate RFC 7591 §2 client metadata. Unknown fields are ignored, as the
+ * spec requires. Omitted grant_types get refresh_token alongside
+ * authorization_code, since every code exchange returns a refresh token.
+ * Requested scopes must be active in the scope registry.
+ */
+export async function parseClientMetadata(
+  db: D1Database,
+  body: Record<string, any>
+): Promise<{ metadata: ClientMetadata; error: null } | { metadata: null; error: NextResponse }> {
+  const fail = (error: string, description: string) => ({ metadata: null, error: registrationError(error, description) } as const);
+
+  const { application_type, redirect_uris, client_name, logo_uri, client_uri, grant_types, response_types, token_endpoint_auth_method, jwks_uri, jwks, post_logout_redirect_uris, backchannel_logout_uri, require_pushed_authorization_requests, scope } = body;
+
+  if (!Array.isArray(redirect_uris) || redirect_uris.length === 0) {
+    return fail('invalid_redirect_uri', 'redirect_uris must be a non-empty array');
+  }
+  if (redirect_uris.length > 5) {
+    return fail('invalid_redirect_uri', 'Maximum of 5 redirect URIs allowed');
+  }
+  // OIDC Dynamic Client Registration §2: application_type defaults to web
+  const applicationType: ApplicationType = application_type ?? 'web';
+  if (!APPLICATION_TYPES.includes(applicationType)) {
+    return fail('invalid_client_metadata', 'application_type must be "web" or "native"');
+  }
+  for (const uri of redirect_uris) {
+    const redirectUriError = findRedirectUriError(uri, applicationType);
+    if (redirectUriError) {
+      return fail('invalid_redirect_uri', redirectUriError);
+    }
+  }
+
+  const postLogoutRedirectUris: string[] = post_logout_redirect_uris ?? [];
+  if (!Array.isArray(postLogoutRedirectUris) || postLogoutRedirectUris.length > 5) {
+    return fail('invalid_client_metadata', 'post_logout_redirect_uris must be an array of at most 5 URIs');
+  }
+  for (const uri of postLogoutRedirectUris) {
+    if (typeof uri !== 'string' || !isHttpUrl(uri)) {
+      return fail('invalid_client_metadata', `Post-logout redirect URI must be an absolute HTTP or HTTPS URL: ${uri}`);
+    }
+  }
+
+  for (const [field, value] of [['logo_uri', logo_uri], ['client_uri', client_uri], ['backchannel_logout_uri', backchannel_logout_uri]]) {
+    if (value !== undefined && (typeof value !== 'string' || !isHttpUrl(value))) {
+      return fail('invalid_client_metadata', `${field} must be an absolute HTTP or HTTPS URL`);
+    }
+  }
+
+  const grantTypes: string[] = grant_types ?? DEFAULT_GRANT_TYPES;
+  if (!Array.isArray(grantTypes) || grantTypes.length === 0) {
+    return fail('invalid_client_metadata', 'grant_types must be a non-empty array');
+  }
+  const unsupportedGrants = grantTypes.filter((g) => !SUPPORTED_GRANT_TYPES.includes(g));
+  if (unsupportedGrants.length > 0) {
+    return fail('invalid_client_metadata', `Unsupported grant_types: ${unsupportedGrants.join(', ')}`);
+  }
+
+  if (response_types !== undefined && (!Array.isArray(response_types) || response_types.some((r) => r !== 'code'))) {
+    return fail('invalid_client_metadata', 'Only the "code" response type is supported');
+  }
+
+  const tokenEndpointAuthMethod: TokenEndpointAuthMethod = token_endpoint_auth_method ?? 'client_secret_basic';
+  if (!TOKEN_ENDPOINT_AUTH_METHODS.includes(tokenEndpointAuthMethod)) {
+    return fail('invalid_client_metadata', `token_endpoint_auth_method must be one of: ${TOKEN_ENDPOINT_AUTH_METHODS.join(', ')}`);
+  }
+
+  // RFC 7591 §2: jwks_uri and jwks are mutually exclusive
+  if (jwks_uri !== undefined && jwks !== undefined) {
+    return fail('invalid_client_metadata', 'jwks_uri and jwks cannot both be provided');
+  }
+  if (jwks_uri !== undefined && (typeof jwks_uri !== 'string' || !isHttpUrl(jwks_uri) || !jwks_uri.startsWith('https:'))) {
+    return fail('invalid_client_metadata', 'jwks_uri must be an absolute HTTPS URL');
+  }
+  if (jwks !== undefined && (typeof jwks !== 'object' || !Array.isArray(jwks.keys) || jwks.keys.length === 0)) {
+    return fail('invalid_client_metadata', 'jwks must be a JWK Set with at least one key');
+  }
+  if (tokenEndpointAuthMethod === 'private_key_jwt' && !jwks_uri && !jwks) {
+    return fail('invalid_client_metadata', 'private_key_jwt requires jwks_uri or jwks');
+  }
+  if (require_pushed_authorization_requests !== undefined && typeof require_pushed_authorization_requests !== 'boolean') {
+    return fail('invalid_client_metadata', 'require_pushed_authorization_requests must be a boolean');
+  }
+  if (tokenEndpointAuthMethod === 'none' && grantTypes.includes('client_credentials')) {
+    return fail('invalid_client_metadata', 'Public clients cannot use the client_credentials grant');
+  }
+
+  const scopes: string[] = typeof scope === 'string' ? scope.split(' ').filter(Boolean) : SUPPORTED_SCOPES;
+  const invalidScopes = await findUnknownScopes(db, scopes);
+  if (invalidScopes.length > 0) {
+    return fail('invalid_client_metadata', `Unknown scope: ${invalidScopes.join(', ')}`);
+  }
+
+  let clientName = typeof client_name === 'string' ? client_name.trim() : '';
+  if (!clientName) {
+    clientName = new URL(redirect_uris[0]).hostname;
+  }
+
+  return {
+    metadata: {
+      applicationType,
+      redirectUris: redirect_uris,
+      clientName,
+      logoUri: logo_uri,
+      clientUri: client_uri,
+      grantTypes,
+      tokenEndpointAuthMethod,
+      jwksUri: jwks_uri,
+      jwks: jwks ? JSON.stringify(jwks) : undefined,
+      postLogoutRedirectUris,
+      backchannelLogoutUri: backchannel_logout_uri,
+      requirePushedAuthorizationRequests: require_pushed_authorization_requests ?? false,
+      scopes,
+    },
+    error: null,
+  };
+}
+
+/**
+ * RFC 7591 §3.2.1 / RFC 7592 §3 client information response for a stored
+ * oauth_clients row. Secrets and the registration token are only known at
+ * creation or rotation time, so callers pass them in.
+ */
+export function toClientInformation(
+  client: any,
+  issuer: string,
+  extras: { clientSecret?: string; registrationAccessToken?: string } = {}
+) {
+  return {
+    client_id: client.client_id,
+    ...(extras.clientSecret && { client_secret: extras.clientSecret, client_secret_expires_at: 0 }),
+    client_id_issued_at: toEpochSeconds(client.created_at) ?? Math.floor(Date.now() / 1000),
+    ...(extras.registrationAccessToken && { registration_access_token: extras.registrationAccessToken }),
+    registration_client_uri: `${issuer}/api/auth/register-client/${client.client_id}`,
+    client_name: client.name,
+    application_type: client.application_type || 'web',
+    redirect_uris: JSON.parse(client.redirect_uris || '[]'),
+    post_logout_redirect_uris: JSON.parse(client.post_logout_redirect_uris || '[]'),
+    ...(client.backchannel_logout_uri && {
+      backchannel_logout_uri: client.backchannel_logout_uri,
+      backchannel_logout_session_required: false,
+    }),
+    ...(client.logo_url && { logo_uri: client.logo_url }),
+    ...(client.homepage_url && { client_uri: client.homepage_url }),
+    require_pushed_authorization_requests: !!client.require_pushed_authorization_requests,
+    grant_types: client.grant_types ? JSON.parse(client.grant_types) : DEFAULT_GRANT_TYPES,
+    response_types: ['code'],
+    token_endpoint_auth_method: client.token_endpoint_auth_method || (client.is_public ? 'none' : 'client_secret_post'),
+    ...(client.jwks_uri && { jwks_uri: client.jwks_uri }),
+    ...(client.jwks && { jwks: JSON.parse(client.jwks) }),
+    scope: JSON.parse(client.scopes || '[]').join(' '),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * OAuth client secrets
+ * Stored as HMAC-SHA256(CLIENT_SECRET_HASH_KEY, salt + secret) with a random
+ * salt per secret, so a leaked database alone can't be used to test guesses.
+ * A client holds at most two active secrets: rotating issues a new one and
+ * gives the previous one a grace period while the app's deploy cuts over.
+ */
+
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  createOAuthClientSecret,
+  deleteOAuthClient,
+  expireOAuthClientSecret,
+  listActiveOAuthClientSecrets,
+  markOAuthClientSecretUsed,
+} from './db';
+import { generateRandomString, generateUUID, hashString, timingSafeEqual } from './webcrypto';
+
+export const MAX_ACTIVE_CLIENT_SECRETS = 2;
+export const DEFAULT_SECRET_GRACE_PERIOD_HOURS = 24;
+export const MAX_SECRET_GRACE_PERIOD_HOURS = 30 * 24;
+
+export interface ClientSecretInfo {
+  id: string;
+  created_at: string | null;
+  expires_at: string | null;
+  last_used_at: string | null;
+}
+
+async function getHashKey(): Promise<CryptoKey> {
+  const secret = process.env.CLIENT_SECRET_HASH_KEY;
+  if (!secret) {
+    throw new Error('CLIENT_SECRET_HASH_KEY not found in environment');
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+}
+
+async function hmacHex(key: CryptoKey, input: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashClientSecret(secret: string, salt: string = generateRandomString(32)): Promise<{ secretHash: string; salt: string }> {
+  return { secretHash: await hmacHex(await getHashKey(), `${salt}${secret}`), salt };
+}
+
+export function generateClientSecret(): string {
+  return `secret_${generateRandomString(64)}`;
+}
+
+/** Store a new secret for the client; returns its id */
+export async function addClientSecret(db: D1Database, clientId: string, secret: string): Promise<string> {
+  const id = generateUUID();
+  await createOAuthClientSecret(db, { id, clientId, ...(await hashClientSecret(secret)) });
+  return id;
+}
+
+/**
+ * The first secret of a just-created confidential client. If it can't be
+ * stored the client is deleted again, so it never exists without a secret.
+ */
+export async function addInitialClientSecret(db: D1Database, clientId: string, secret: string): Promise<string> {
+  try {
+    return await addClientSecret(db, clientId, secret);
+  } catch (error) {
+    await deleteOAuthClient(db, clientId);
+    throw error;
+  }
+}
+
+export async function listClientSecretInfo(db: D1Database, clientId: string): Promise<ClientSecretInfo[]> {
+  const rows = await listActiveOAuthClientSecrets(db, clientId) as any[];
+  return rows.map((row) => ({
+    id: row.id,
+    created_at: row.created_at,
+    expires_at: row.expires_at,
+    last_used_at: row.last_used_at,
+  }));
+}
+
+/**
+ * Check a presented secret against every active secret of the client. Each
+ * one is hashed and compared in constant time, with no early exit, so timing
+ * doesn't reveal which secret (if any) matched.
+ */
+export async function verifyClientSecret(db: D1Database, clientId: string, secret: string): Promise<boolean> {
+  const rows = await listActiveOAuthClientSecrets(db, clientId) as any[];
+  if (rows.length === 0) return false;
+
+  const key = await getHashKey();
+  let matched: any = null;
+  for (const row of rows) {
+    // Secrets carried over from before salting are plain SHA-256
+    const computed = row.salt ? await hmacHex(key, `${row.salt}${secret}`) : await hashString(secret);
+    if (timingSafeEqual(computed, row.secret_hash) && !matched) {
+      matched = row;
+    }
+  }
+  if (!matched) return false;
+
+  try {
+    await markOAuthClientSecretUsed(db, matched.id, matched.salt ? undefined : await hashClientSecret(secret));
+  } catch (error) {
+    console.error('[Client Secrets] Failed to record secret use:', error);
+  }
+  return true;
+}
+
+/**
+ * Issue a new secret. The newest existing secret stays valid for
+ * `gracePeriodHours` (0 retires it now); any older one is retired now, so the
+ * client never holds more than two.
+ */
+export async function rotateClientSecret(
+  db: D1Database,
+  clientId: string,
+  { gracePeriodHours = DEFAULT_SECRET_GRACE_PERIOD_HOURS }: { gracePeriodHours?: number } = {}
+): Promise<{ id: string; secret: string; previousExpiresAt: string | null }> {
+  const active = await listActiveOAuthClientSecrets(db, clientId) as any[];
+  const now = new Date();
+  const graceEnd = new Date(now.getTime() + gracePeriodHours * 60 * 60 * 1000);
+
+  for (const [index, row] of active.entries()) {
+    await expireOAuthClientSecret(db, clientId, row.id, index < MAX_ACTIVE_CLIENT_SECRETS - 1 ? graceEnd : now);
+  }
+
+  const secret = generateClientSecret();
+  const id = await addClientSecret(db, clientId, secret);
+
+  const previous = active[0];
+  let previousExpiresAt: string | null = null;
+  if (previous) {
+    const existing = previous.expires_at ? new Date(previous.expires_at) : null;
+    previousExpiresAt = (existing && existing < graceEnd ? existing : graceEnd).toISOString();
+  }
+
+  return { id, secret, previousExpiresAt };
+}
+
+/** Retire one secret immediately, e.g. once every deploy uses the new one */
+export async function retireClientSecret(db: D1Database, clientId: string, secretId: string): Promise<boolean> {
+  const result = await expireOAuthClientSecret(db, clientId, secretId, new Date());
+  return (result.meta.changes ?? 0) > 0;
+}
@@ -92,6 +92,10 @@ export async function createAuthRequest(
     clientId,
     redirectUri,
     scopes,
+    codeChallenge,
+    codeChallengeMethod,
+    resources,
+    responseMode,
     expiresAt,
   }: {
     id: string;
@@ -102,12 +106,16 @@ export async function createAuthRequest(
     clientId: string;
     redirectUri: string;
     scopes?: string;
+    codeChallenge?: string;
+    codeChallengeMethod?: 'S256' | 'plain';
+    resources?: string[];
+    responseMode?: string;
     expiresAt: Date;
   }
 ) {
   const stmt = db.prepare(
-    `INSERT INTO auth_requests (id, state, nonce, pkce_verifier, provider, client_id, redirect_uri, scopes, expires_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO auth_requests (id, state, nonce, pkce_verifier, provider, client_id, redirect_uri, scopes, code_challenge, code_challenge_method, resources, response_mode, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   );
   return await stmt.bind(
     id,
@@ -118,15 +126,20 @@ export async function createAuthRequest(
     clientId,
     redirectUri,
     scopes || null,
+    codeChallenge || null,
+    codeChallenge ? codeChallengeMethod || 'plain' : null,
+    resources?.length ? JSON.stringify(resources) : null,
+    responseMode || 'query',
     expiresAt.toISOString()
   ).run();
 }
 
-export async function getAuthRequestByState(db: D1Database, state: string) {
+/** A request still waiting for the user's decision: not yet coded, redeemed or expired */
+export async function getPendingAuthRequest(db: D1Database, authRequestId: string) {
   const stmt = db.prepare(
-    'SELECT * FROM auth_requests WHERE state = ? AND expires_at > CURRENT_TIMESTAMP'
+    'SELECT * FROM auth_requests WHERE id = ? AND code IS NULL AND used = 0 AND expires_at > ?'
   );
-  return await stmt.bind(state).first();
+  return await stmt.bind(authRequestId, new Date().toISOString()).first();
 }
 
 export async function deleteAuthRequest(db: D1Database, state: string) {
@@ -134,6 +147,170 @@ export async function deleteAuthRequest(db: D1Database, state: string) {
   return await stmt.bind(state).run();
 }
 
+/**
+ * Keyed on the auth request id: `state` is chosen by the client and need not be
+ * unique. Only a pending request is coded; `meta.changes` is 0 otherwise.
+ */
+export async function setAuthRequestCode(
+  db: D1Database,
+  authRequestId: string,
+  { code, userId, authTime, sessionId }: { code: string; userId: string; authTime: number; sessionId?: string | null }
+) {
+  const stmt = db.prepare(
+    'UPDATE auth_requests SET code = ?, user_id = ?, auth_time = ?, session_id = ? WHERE id = ? AND code IS NULL AND used = 0'
+  );
+  return await stmt.bind(code, userId, authTime, sessionId ?? null, authRequestId).run();
+}
+
+export async function getOAuthConsent(db: D1Database, userId: string, clientId: string) {
+  const stmt = db.prepare('SELECT * FROM oauth_consents WHERE user_id = ? AND client_id = ?');
+  return await stmt.bind(userId, clientId).first();
+}
+
+/** Record approved scopes and resources, merging with anything the user approved for this client before */
+export async function saveOAuthConsent(
+  db: D1Database,
+  { id, userId, clientId, scopes, resources = [] }: { id: string; userId: string; clientId: string; scopes: string[]; resources?: string[] }
+) {
+  const existing = await getOAuthConsent(db, userId, clientId) as any;
+  const merged = new Set([...(existing?.scopes || '').split(' ').filter(Boolean), ...scopes]);
+  const mergedResources = new Set([...JSON.parse(existing?.resources || '[]'), ...resources]);
+
+  const stmt = db.prepare(
+    `INSERT INTO oauth_consents (id, user_id, client_id, scopes, resources)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (user_id, client_id) DO UPDATE SET scopes = excluded.scopes, resources = excluded.resources, updated_at = CURRENT_TIMESTAMP`
+  );
+  return await stmt.bind(
+    id,
+    userId,
+    clientId,
+    Array.from(merged).join(' '),
+    mergedResources.size ? JSON.stringify(Array.from(mergedResources)) : null
+  ).run();
+}
+
+export async function listUserOAuthConsents(db: D1Database, userId: string) {
+  return db
+    .prepare(
+      `SELECT c.client_id, c.scopes, c.created_at, c.updated_at,
+              o.name, o.description, o.logo_url, o.homepage_url
+       FROM oauth_consents c
+       JOIN oauth_clients o ON o.client_id = c.client_id
+       WHERE c.user_id = ?
+       ORDER BY c.updated_at DESC`
+    )
+    .bind(userId)
+    .all();
+}
+
+export async function deleteOAuthConsent(db: D1Database, userId: string, clientId: string) {
+  const stmt = db.prepare('DELETE FROM oauth_consents WHERE user_id = ? AND client_id = ?');
+  return await stmt.bind(userId, clientId).run();
+}
+
+/**
+ * Pushed Authorization Requests (RFC 9126)
+ */
+
+export async function createPushedAuthorizationRequest(
+  db: D1Database,
+  { requestUri, clientId, params, expiresAt }: { requestUri: string; clientId: string; params: string; expiresAt: Date }
+) {
+  const stmt = db.prepare(
+    'INSERT INTO pushed_authorization_requests (request_uri, client_id, params, expires_at) VALUES (?, ?, ?, ?)'
+  );
+  return await stmt.bind(requestUri, clientId, params, expiresAt.toISOString()).run();
+}
+
+export async function getPushedAuthorizationRequest(db: D1Database, requestUri: string) {
+  const stmt = db.prepare(
+    'SELECT * FROM pushed_authorization_requests WHERE request_uri = ? AND used = 0 AND expires_at > ?'
+  );
+  return await stmt.bind(requestUri, new Date().toISOString()).first();
+}
+
+/** One-time use: only the caller that flips `used` may start the authorization */
+export async function consumePushedAuthorizationRequest(db: D1Database, requestUri: string) {
+  const stmt = db.prepare(
+    'UPDATE pushed_authorization_requests SET used = 1 WHERE request_uri = ? AND used = 0'
+  );
+  const result = await stmt.bind(requestUri).run();
+  return !!result.meta.changes;
+}
+
+/**
+ * One-time use of a client assertion's jti: false when it was already
+ * presented. Expired entries are pruned first, since their assertions are
+ * rejected on `exp` anyway.
+ */
+export async function recordClientAssertionJti(
+  db: D1Database,
+  { clientId, jti, expiresAt }: { clientId: string; jti: string; expiresAt: Date }
+) {
+  const now = new Date().toISOString();
+  await db.prepare('DELETE FROM client_assertion_jtis WHERE expires_at <= ?').bind(now).run();
+  const result = await db.prepare(
+    'INSERT OR IGNORE INTO client_assertion_jtis (client_id, jti, expires_at) VALUES (?, ?, ?)'
+  ).bind(clientId, jti, expiresAt.toISOString()).run();
+  return !!result.meta.changes;
+}
+
+export async function createDeviceCode(
+  db: D1Database,
+  {
+    id,
+    deviceCode,
+    userCode,
+    clientId,
+    scopes,
+    pollInterval,
+    expiresAt,
+  }: {
+    id: string;
+    deviceCode: string;
+    userCode: string;
+    clientId: string;
+    scopes?: string;
+    pollInterval: number;
+    expiresAt: Date;
+  }
+) {
+  const stmt = db.prepare(
+    `INSERT INTO device_codes (id, device_code, user_code, client_id, scopes, poll_interval, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  return await stmt.bind(id, deviceCode, userCode, clientId, scopes || null, pollInterval, expiresAt.toISOString()).run();
+}
+
+/** expires_at is stored as ISO-8601, so it is compared with an ISO timestamp rather than CURRENT_TIMESTAMP */
+export async function getDeviceCodeByUserCode(db: D1Database, userCode: string) {
+  const stmt = db.prepare(
+    `SELECT * FROM device_codes WHERE user_code = ? AND status = 'pending' AND expires_at > ?`
+  );
+  return await stmt.bind(userCode, new Date().toISOString()).first();
+}
+
+/** Includes expired rows so the token endpoint can answer expired_token */
+export async function getDeviceCodeByDeviceCode(db: D1Database, deviceCode: string, clientId: string) {
+  const stmt = db.prepare('SELECT * FROM device_codes WHERE device_code = ? AND client_id = ?');
+  return await stmt.bind(deviceCode, clientId).first();
+}
+
+export async function resolveDeviceCode(
+  db: D1Database,
+  userCode: string,
+  { approved, userId, authTime, sessionId }: { approved: boolean; userId: string; authTime: number; sessionId?: string | null }
+) {
+  const stmt = db.prepare(
+    `UPDATE device_codes SET status = ?, user_id = ?, auth_time = ?, session_id = ?
+     WHERE user_code = ? AND status = 'pending' AND expires_at > ?`
+  );
+  return await stmt.bind(
+    approved ? 'approved' : 'denied', userId, authTime, sessionId ?? null, userCode, new Date().toISOString()
+  ).run();
+}
+
 export async function createRefreshToken(
   db: D1Database,
   {
@@ -141,20 +318,48 @@ export async function createRefreshToken(
     userId,
     tokenHash,
     clientId,
+    grantId,
+    familyId,
+    parentId,
+    authRequestId,
+    sessionId,
+    authTime,
     expiresAt,
   }: {
     id: string;
     userId: string;
     tokenHash: string;
     clientId?: string;
+    grantId?: string;
+    /** Rotations pass their parent's family; a new sign-in starts its own */
+    familyId?: string;
+    parentId?: string;
+    /** The authorization code's auth request, on the first token of a code grant */
+    authRequestId?: string;
+    /** OAuth grants: the accounts session they were approved in */
+    sessionId?: string | null;
+    /** Epoch seconds of the sign-in; rotations pass their parent's, a new sign-in defaults to now */
+    authTime?: number | null;
     expiresAt: Date;
   }
 ) {
   const stmt = db.prepare(
-    `INSERT INTO refresh_tokens (id, user_id, token_hash, client_id, expires_at)
-     VALUES (?, ?, ?, ?, ?)`
+    `INSERT INTO refresh_tokens (id, user_id, token_hash, client_id, grant_id, family_id, parent_id, auth_request_id, session_id, auth_time, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   );
-  return await stmt.bind(id, userId, tokenHash, clientId || null, expiresAt.toISOString()).run();
+  return await stmt.bind(
+    id,
+    userId,
+    tokenHash,
+    clientId || null,
+    grantId || null,
+    familyId || grantId || id,
+    parentId || null,
+    authRequestId || null,
+    sessionId || null,
+    authTime ?? Math.floor(Date.now() / 1000),
+    expiresAt.toISOString()
+  ).run();
 }
 
 export async function getRefreshTokenByHash(db: D1Database, tokenHash: string) {
@@ -164,6 +369,54 @@ export async function getRefreshTokenByHash(db: D1Database, tokenHash: string) {
   return await stmt.bind(tokenHash).first();
 }
 
+/**
+ * Any refresh token row for the hash, revoked or not, for reuse detection.
+ * `rotated` is 1 when a newer token in the family was issued from this one.
+ */
+export async function findRefreshTokenByHash(db: D1Database, tokenHash: string) {
+  const stmt = db.prepare(
+    `SELECT rt.*, EXISTS (SELECT 1 FROM refresh_tokens child WHERE child.parent_id = rt.id) AS rotated
+     FROM refresh_tokens rt WHERE rt.token_hash = ?`
+  );
+  return await stmt.bind(tokenHash).first();
+}
+
+export async function revokeRefreshTokenFamily(db: D1Database, familyId: string) {
+  const stmt = db.prepare(
+    'UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP WHERE family_id = ? AND revoked = 0'
+  );
+  return await stmt.bind(familyId).run();
+}
+
+/** Revoke every family issued from an authorization code, including its rotations */
+export async function revokeRefreshTokensByAuthRequest(db: D1Database, authRequestId: string) {
+  const stmt = db.prepare(
+    `UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP
+     WHERE revoked = 0 AND family_id IN (SELECT family_id FROM refresh_tokens WHERE auth_request_id = ?)`
+  );
+  return await stmt.bind(authRequestId).run();
+}
+
+/** Sign-out: the accounts session's own refresh tokens and those of the OAuth grants approved in it */
+export async function revokeAccountsSessionRefreshTokens(db: D1Database, sessionId: string) {
+  const stmt = db.prepare(
+    `UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP
+     WHERE revoked = 0 AND (family_id = ? OR session_id = ?)`
+  );
+  return await stmt.bind(sessionId, sessionId).run();
+}
+
+/**
+ * Rotation: revoke the token only while it is still live. `meta.changes` is 0
+ * when a concurrent request rotated or revoked it first.
+ */
+export async function claimRefreshToken(db: D1Database, tokenHash: string) {
+  const stmt = db.prepare(
+    'UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP WHERE token_hash = ? AND revoked = 0'
+  );
+  return await stmt.bind(tokenHash).run();
+}
+
 export async function revokeRefreshToken(db: D1Database, tokenHash: string) {
   const stmt = db.prepare(
     'UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP WHERE token_hash = ?'
@@ -171,6 +424,171 @@ export async function revokeRefreshToken(db: D1Database, tokenHash: string) {
   return await stmt.bind(tokenHash).run();
 }
 
+export async function revokeRefreshTokenGrant(db: D1Database, grantId: string) {
+  const stmt = db.prepare(
+    'UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP WHERE grant_id = ? AND revoked = 0'
+  );
+  return await stmt.bind(grantId).run();
+}
+
+export async function revokeUserClientRefreshTokens(db: D1Database, userId: string, clientId: string) {
+  const stmt = db.prepare(
+    'UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND client_id = ? AND revoked = 0'
+  );
+  return await stmt.bind(userId, clientId).run();
+}
+
+export async function revokeAllUserRefreshTokens(db: D1Database, userId: string) {
+  const stmt = db.prepare(
+    'UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked = 0'
+  );
+  return await stmt.bind(userId).run();
+}
+
+/** Compromise rotation: every outstanding refresh token, for every user */
+export async function revokeAllRefreshTokens(db: D1Database) {
+  const stmt = db.prepare(
+    'UPDATE refresh_tokens SET revoked = 1, revoked_at = CURRENT_TIMESTAMP WHERE revoked = 0'
+  );
+  return await stmt.run();
+}
+
+/**
+ * Signing Keys
+ * next → current → retired; see src/lib/signing-keys.ts
+ */
+
+export async function listSigningKeys(db: D1Database) {
+  const result = await db.prepare(
+    `SELECT * FROM signing_keys
+     ORDER BY CASE status WHEN 'next' THEN 0 WHEN 'current' THEN 1 ELSE 2 END, created_at DESC`
+  ).all();
+  return result.results || [];
+}
+
+export async function createSigningKey(
+  db: D1Database,
+  {
+    kid,
+    publicJwk,
+    privateJwk,
+    status,
+    retiredAt,
+    expiresAt,
+  }: {
+    kid: string;
+    publicJwk: string;
+    privateJwk: string | null;
+    status: 'next' | 'current' | 'retired';
+    retiredAt?: Date;
+    expiresAt?: Date;
+  }
+) {
+  const stmt = db.prepare(
+    `INSERT INTO signing_keys (kid, public_jwk, private_jwk, status, activated_at, retired_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  );
+  return await stmt.bind(
+    kid,
+    publicJwk,
+    privateJwk,
+    status,
+    status === 'current' ? new Date().toISOString() : null,
+    retiredAt?.toISOString() ?? null,
+    expiresAt?.toISOString() ?? null
+  ).run();
+}
+
+export async function activateSigningKey(db: D1Database, kid: string) {
+  const stmt = db.prepare(
+    `UPDATE signing_keys SET status = 'current', activated_at = ? WHERE kid = ? AND status = 'next'`
+  );
+  return await stmt.bind(new Date().toISOString(), kid).run();
+}
+
+/** Retired keys keep only their public half; `expiresAt` ends verification */
+export async function retireSigningKey(db: D1Database, kid: string, expiresAt: Date) {
+  const stmt = db.prepare(
+    `UPDATE signing_keys SET status = 'retired', private_jwk = NULL, retired_at = ?, expires_at = ?
+     WHERE kid = ?`
+  );
+  return await stmt.bind(new Date().toISOString(), expiresAt.toISOString(), kid).run();
+}
+
+/**
+ * Back-Channel Logout
+ * One session per live refresh token grant, for clients with a backchannel_logout_uri
+ */
+
+/** With `sessionId`, only the grants approved in that accounts session */
+export async function getBackchannelLogoutSessions(db: D1Database, userId: string, sessionId?: string) {
+  const stmt = db.prepare(
+    `SELECT DISTINCT rt.client_id, rt.grant_id, c.backchannel_logout_uri
+     FROM refresh_tokens rt
+     JOIN oauth_clients c ON c.client_id = rt.client_id
+     WHERE rt.user_id = ? AND rt.revoked = 0 AND rt.expires_at > CURRENT_TIMESTAMP
+       AND c.is_active = 1 AND c.backchannel_logout_uri IS NOT NULL AND c.backchannel_logout_uri != ''
+       ${sessionId ? 'AND rt.session_id = ?' : ''}`
+  );
+  const result = await (sessionId ? stmt.bind(userId, sessionId) : stmt.bind(userId)).all();
+  return (result.results || []) as { client_id: string; grant_id: string | null; backchannel_logout_uri: string }[];
+}
+
+export async function createBackchannelLogoutDelivery(
+  db: D1Database,
+  {
+    id,
+    clientId,
+    userId,
+    sid,
+    logoutUri,
+  }: {
+    id: string;
+    clientId: string;
+    userId: string;
+    sid?: string;
+    logoutUri: string;
+  }
+) {
+  const stmt = db.prepare(
+    `INSERT INTO backchannel_logout_deliveries (id, client_id, user_id, sid, logout_uri)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+  return await stmt.bind(id, clientId, userId, sid ?? null, logoutUri).run();
+}
+
+export async function updateBackchannelLogoutDelivery(
+  db: D1Database,
+  id: string,
+  {
+    status,
+    attemptCount,
+    statusCode,
+    errorMessage,
+  }: {
+    status: 'pending' | 'delivered' | 'failed';
+    attemptCount: number;
+    statusCode?: number;
+    errorMessage?: string;
+  }
+) {
+  const stmt = db.prepare(
+    `UPDATE backchannel_logout_deliveries
+     SET status = ?, attempt_count = ?, status_code = ?, error_message = ?, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`
+  );
+  return await stmt.bind(status, attemptCount, statusCode ?? null, errorMessage ?? null, id).run();
+}
+
+export async function listBackchannelLogoutDeliveries(db: D1Database, clientId: string, limit: number = 20) {
+  const stmt = db.prepare(
+    `SELECT id, user_id, sid, logout_uri, status, attempt_count, status_code, error_message, created_at, updated_at
+     FROM backchannel_logout_deliveries WHERE client_id = ? ORDER BY created_at DESC LIMIT ?`
+  );
+  const result = await stmt.bind(clientId, limit).all();
+  return result.results || [];
+}
+
 export async function updateUserLastLogin(db: D1Database, userId: string) {
   const stmt = db.prepare('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?');
   return await stmt.bind(userId).run();
@@ -187,6 +605,7 @@ export async function logAuditEvent(
     userAgent,
     status,
     errorMessage,
+    details,
   }: {
     id: string;
     userId?: string;
@@ -196,11 +615,12 @@ export async function logAuditEvent(
     userAgent?: string;
     status: 'success' | 'failure';
     errorMessage?: string;
+    details?: Record<string, unknown>;
   }
 ) {
   const stmt = db.prepare(
-    `INSERT INTO audit_logs (id, user_id, event_type, provider, ip_address, user_agent, status, error_message)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO audit_logs (id, user_id, event_type, provider, ip_address, user_agent, status, error_message, details)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
   );
   return await stmt.bind(
     id,
@@ -210,10 +630,158 @@ export async function logAuditEvent(
     ipAddress || null,
     userAgent || null,
     status,
-    errorMessage || null
+    errorMessage || null,
+    details ? JSON.stringify(details) : null
   ).run();
 }
 
+/**
+ * Scope Registry
+ * Built-in OIDC scopes plus API scopes defined by resource-server owners
+ */
+
+export async function listOAuthScopes(db: D1Database) {
+  const stmt = db.prepare(
+    'SELECT name, description, sensitivity, owner_id, is_active, created_at, updated_at FROM oauth_scopes ORDER BY owner_id IS NOT NULL, name'
+  );
+  const result = await stmt.all();
+  return result.results || [];
+}
+
+export async function getOAuthScope(db: D1Database, name: string) {
+  const stmt = db.prepare('SELECT * FROM oauth_scopes WHERE name = ?');
+  return await stmt.bind(name).first();
+}
+
+/** Active registry entries for the given names; unknown or disabled names are left out */
+export async function getActiveOAuthScopes(db: D1Database, names: string[]) {
+  if (names.length === 0) return [];
+  const stmt = db.prepare(
+    `SELECT name, description, sensitivity FROM oauth_scopes
+     WHERE is_active = 1 AND name IN (${names.map(() => '?').join(', ')})`
+  );
+  const result = await stmt.bind(...names).all();
+  return (result.results || []) as { name: string; description: string; sensitivity: string }[];
+}
+
+/** Owner of any scope under `namespace:` — the first owner claims the namespace */
+export async function getScopeNamespaceOwner(db: D1Database, namespace: string): Promise<string | null> {
+  const stmt = db.prepare(
+    "SELECT owner_id FROM oauth_scopes WHERE substr(name, 1, ?) = ? AND owner_id IS NOT NULL LIMIT 1"
+  );
+  const result = await stmt.bind(namespace.length + 1, `${namespace}:`).first() as any;
+  return result?.owner_id ?? null;
+}
+
+export async function createOAuthScope(
+  db: D1Database,
+  {
+    name,
+    description,
+    sensitivity,
+    ownerId,
+  }: {
+    name: string;
+    description: string;
+    sensitivity: string;
+    ownerId: string;
+  }
+) {
+  const stmt = db.prepare(
+    `INSERT INTO oauth_scopes (name, description, sensitivity, owner_id)
+     VALUES (?, ?, ?, ?)`
+  );
+  return await stmt.bind(name, description, sensitivity, ownerId).run();
+}
+
+export async function updateOAuthScope(
+  db: D1Database,
+  name: string,
+  updates: {
+    description?: string;
+    sensitivity?: string;
+    isActive?: boolean;
+  }
+) {
+  const setClauses: string[] = [];
+  const values: (string | number)[] = [];
+
+  if (updates.description !== undefined) {
+    setClauses.push('description = ?');
+    values.push(updates.description);
+  }
+  if (updates.sensitivity !== undefined) {
+    setClauses.push('sensitivity = ?');
+    values.push(updates.sensitivity);
+  }
+  if (updates.isActive !== undefined) {
+    setClauses.push('is_active = ?');
+    values.push(updates.isActive ? 1 : 0);
+  }
+
+  if (setClauses.length === 0) {
+    return null;
+  }
+
+  values.push(name);
+
+  const stmt = db.prepare(
+    `UPDATE oauth_scopes SET ${setClauses.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE name = ?`
+  );
+  return await stmt.bind(...values).run();
+}
+
+/** Clients the scope's owner approved to use the scope in client_credentials tokens */
+export async function listClientScopeGrants(db: D1Database, scope: string) {
+  const stmt = db.prepare(
+    `SELECT g.client_id, g.created_at, o.name
+     FROM oauth_client_scope_grants g
+     JOIN oauth_clients o ON o.client_id = g.client_id
+     WHERE g.scope = ?
+     ORDER BY g.created_at DESC`
+  );
+  const result = await stmt.bind(scope).all();
+  return result.results || [];
+}
+
+export async function createClientScopeGrant(
+  db: D1Database,
+  { scope, clientId, approvedBy }: { scope: string; clientId: string; approvedBy: string }
+) {
+  const stmt = db.prepare(
+    'INSERT OR IGNORE INTO oauth_client_scope_grants (scope, client_id, approved_by) VALUES (?, ?, ?)'
+  );
+  return await stmt.bind(scope, clientId, approvedBy).run();
+}
+
+export async function deleteClientScopeGrant(db: D1Database, scope: string, clientId: string) {
+  const stmt = db.prepare('DELETE FROM oauth_client_scope_grants WHERE scope = ? AND client_id = ?');
+  return await stmt.bind(scope, clientId).run();
+}
+
+/**
+ * Custom scopes among `names` owned by someone other than the client's owner
+ * that the scope owner has not approved for the client
+ */
+export async function listUnapprovedClientScopes(
+  db: D1Database,
+  { clientId, ownerId }: { clientId: string; ownerId: string | null },
+  names: string[]
+): Promise<string[]> {
+  if (names.length === 0) return [];
+  const stmt = db.prepare(
+    `SELECT s.name FROM oauth_scopes s
+     WHERE s.name IN (${names.map(() => '?').join(', ')})
+       AND s.owner_id IS NOT NULL
+       AND s.owner_id IS NOT ?
+       AND NOT EXISTS (
+         SELECT 1 FROM oauth_client_scope_grants g WHERE g.scope = s.name AND g.client_id = ?
+       )`
+  );
+  const result = await stmt.bind(...names, ownerId, clientId).all();
+  return (result.results || []).map((row: any) => row.name as string);
+}
+
 /**
  * OAuth Client Management
  * For registering and managing OAuth applications
@@ -223,34 +791,73 @@ export async function createOAuthClient(
   db: D1Database,
   {
     clientId,
-    clientSecretHash,
     name,
     redirectUris,
     scopes,
     ownerId,
     description,
     homepageUrl,
+    logoUrl,
+    isPublic,
+    applicationType,
+    grantTypes,
+    tokenEndpointAuthMethod,
+    jwksUri,
+    jwks,
+    postLogoutRedirectUris,
+    backchannelLogoutUri,
+    requirePushedAuthorizationRequests,
+    registrationAccessTokenHash,
   }: {
     clientId: string;
-    clientSecretHash: string;
     name: string;
     redirectUris: string; // JSON stringified array
     scopes: string; // JSON stringified array
     ownerId: string;
     description?: string;
     homepageUrl?: string;
+    logoUrl?: string;
+    isPublic?: boolean;
+    applicationType?: string; // 'web' | 'native'
+    grantTypes?: string; // JSON stringified array
+    tokenEndpointAuthMethod?: string;
+    jwksUri?: string; // private_key_jwt clients only
+    jwks?: string; // JSON; private_key_jwt clients only
+    postLogoutRedirectUris?: string; // JSON stringified array
+    backchannelLogoutUri?: string;
+    requirePushedAuthorizationRequests?: boolean;
+    registrationAccessTokenHash?: string; // dynamically registered clients only
   }
 ) {
   const stmt = db.prepare(
-    `INSERT INTO oauth_clients (client_id, client_secret_hash, name, redirect_uris, scopes, owner_id, description, homepage_url)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO oauth_clients (client_id, client_secret_hash, name, redirect_uris, scopes, owner_id, description, homepage_url, logo_url, is_public, application_type, grant_types, token_endpoint_auth_method, jwks_uri, jwks, post_logout_redirect_uris, backchannel_logout_uri, require_pushed_authorization_requests, registration_access_token_hash)
+     VALUES (?, '', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   );
-  return await stmt.bind(clientId, clientSecretHash, name, redirectUris, scopes, ownerId, description ?? null, homepageUrl ?? null).run();
+  return await stmt.bind(
+    clientId,
+    name,
+    redirectUris,
+    scopes,
+    ownerId,
+    description ?? null,
+    homepageUrl ?? null,
+    logoUrl ?? null,
+    isPublic ? 1 : 0,
+    applicationType ?? 'web',
+    grantTypes ?? null,
+    tokenEndpointAuthMethod ?? null,
+    jwksUri ?? null,
+    jwks ?? null,
+    postLogoutRedirectUris ?? null,
+    backchannelLogoutUri ?? null,
+    requirePushedAuthorizationRequests ? 1 : 0,
+    registrationAccessTokenHash ?? null
+  ).run();
 }
 
 export async function getOAuthClientById(db: D1Database, clientId: string) {
   const stmt = db.prepare(
-    'SELECT client_id, name, redirect_uris, scopes, created_at, is_active FROM oauth_clients WHERE client_id = ?'
+    'SELECT client_id, name, redirect_uris, scopes, created_at, is_active, is_public, application_type, require_pushed_authorization_requests FROM oauth_clients WHERE client_id = ?'
   );
   return await stmt.bind(clientId).first();
 }
@@ -262,16 +869,62 @@ export async function getOAuthClientByIdWithSecret(db: D1Database, clientId: str
   return await stmt.bind(clientId).first();
 }
 
-export async function validateOAuthClient(
+/**
+ * Client secrets
+ * Hashes only; see client-secrets.ts for hashing and verification
+ */
+
+export async function createOAuthClientSecret(
   db: D1Database,
-  clientId: string,
-  clientSecretHash: string
-): Promise<boolean> {
+  { id, clientId, secretHash, salt }: { id: string; clientId: string; secretHash: string; salt: string }
+) {
   const stmt = db.prepare(
-    'SELECT 1 FROM oauth_clients WHERE client_id = ? AND client_secret_hash = ? AND is_active = 1'
+    'INSERT INTO oauth_client_secrets (id, client_id, secret_hash, salt) VALUES (?, ?, ?, ?)'
   );
-  const result = await stmt.bind(clientId, clientSecretHash).first();
-  return !!result;
+  return await stmt.bind(id, clientId, secretHash, salt).run();
+}
+
+/** Secrets that still authenticate, newest first */
+export async function listActiveOAuthClientSecrets(db: D1Database, clientId: string) {
+  const stmt = db.prepare(
+    `SELECT * FROM oauth_client_secrets
+     WHERE client_id = ? AND (expires_at IS NULL OR expires_at > ?)
+     ORDER BY created_at DESC`
+  );
+  const result = await stmt.bind(clientId, new Date().toISOString()).all();
+  return result.results || [];
+}
+
+/** Move a secret's expiry earlier; a later date never extends it */
+export async function expireOAuthClientSecret(db: D1Database, clientId: string, secretId: string, expiresAt: Date) {
+  const stmt = db.prepare(
+    `UPDATE oauth_client_secrets SET expires_at = ?
+     WHERE id = ? AND client_id = ? AND (expires_at IS NULL OR expires_at > ?)`
+  );
+  const at = expiresAt.toISOString();
+  return await stmt.bind(at, secretId, clientId, at).run();
+}
+
+export async function markOAuthClientSecretUsed(
+  db: D1Database,
+  secretId: string,
+  rehashed?: { secretHash: string; salt: string }
+) {
+  if (rehashed) {
+    return await db
+      .prepare('UPDATE oauth_client_secrets SET last_used_at = CURRENT_TIMESTAMP, secret_hash = ?, salt = ? WHERE id = ?')
+      .bind(rehashed.secretHash, rehashed.salt, secretId)
+      .run();
+  }
+  return await db
+    .prepare('UPDATE oauth_client_secrets SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?')
+    .bind(secretId)
+    .run();
+}
+
+export async function deleteOAuthClient(db: D1Database, clientId: string) {
+  const stmt = db.prepare('DELETE FROM oauth_clients WHERE client_id = ?');
+  return await stmt.bind(clientId).run();
 }
 
 export async function updateOAuthClient(
@@ -285,16 +938,25 @@ export async function updateOAuthClient(
     description?: string;
     homepageUrl?: string;
     logoUrl?: string;
-    clientSecretHash?: string;
+    applicationType?: string;
+    grantTypes?: string | null; // JSON stringified array; null allows every grant type
+    tokenEndpointAuthMethod?: string;
+    jwksUri?: string | null;
+    jwks?: string | null;
+    postLogoutRedirectUris?: string;
+    backchannelLogoutUri?: string | null;
+    requirePushedAuthorizationRequests?: boolean;
+    tokenExchangeAudiences?: string | null; // JSON stringified array
+    tokenExchangeResources?: string | null; // JSON stringified array
+    accessTokenTtlMinutes?: number | null;
+    refreshTokenTtlDays?: number | null;
+    refreshTokenExpiry?: string;
+    registrationAccessTokenHash?: string | null;
   }
 ) {
   const setClauses: string[] = [];
   const values: (string | number | null)[] = [];
 
-  if (updates.clientSecretHash !== undefined) {
-    setClauses.push('client_secret_hash = ?');
-    values.push(updates.clientSecretHash);
-  }
   if (updates.name !== undefined) {
     setClauses.push('name = ?');
     values.push(updates.name);
@@ -323,6 +985,62 @@ export async function updateOAuthClient(
     setClauses.push('logo_url = ?');
     values.push(updates.logoUrl);
   }
+  if (updates.applicationType !== undefined) {
+    setClauses.push('application_type = ?');
+    values.push(updates.applicationType);
+  }
+  if (updates.grantTypes !== undefined) {
+    setClauses.push('grant_types = ?');
+    values.push(updates.grantTypes);
+  }
+  if (updates.tokenEndpointAuthMethod !== undefined) {
+    setClauses.push('token_endpoint_auth_method = ?');
+    values.push(updates.tokenEndpointAuthMethod);
+  }
+  if (updates.jwksUri !== undefined) {
+    setClauses.push('jwks_uri = ?');
+    values.push(updates.jwksUri);
+  }
+  if (updates.jwks !== undefined) {
+    setClauses.push('jwks = ?');
+    values.push(updates.jwks);
+  }
+  if (updates.postLogoutRedirectUris !== undefined) {
+    setClauses.push('post_logout_redirect_uris = ?');
+    values.push(updates.postLogoutRedirectUris);
+  }
+  if (updates.backchannelLogoutUri !== undefined) {
+    setClauses.push('backchannel_logout_uri = ?');
+    values.push(updates.backchannelLogoutUri);
+  }
+  if (updates.requirePushedAuthorizationRequests !== undefined) {
+    setClauses.push('require_pushed_authorization_requests = ?');
+    values.push(updates.requirePushedAuthorizationRequests ? 1 : 0);
+  }
+  if (updates.tokenExchangeAudiences !== undefined) {
+    setClauses.push('token_exchange_audiences = ?');
+    values.push(updates.tokenExchangeAudiences);
+  }
+  if (updates.tokenExchangeResources !== undefined) {
+    setClauses.push('token_exchange_resources = ?');
+    values.push(updates.tokenExchangeResources);
+  }
+  if (updates.accessTokenTtlMinutes !== undefined) {
+    setClauses.push('access_token_ttl_minutes = ?');
+    values.push(updates.accessTokenTtlMinutes);
+  }
+  if (updates.refreshTokenTtlDays !== undefined) {
+    setClauses.push('refresh_token_ttl_days = ?');
+    values.push(updates.refreshTokenTtlDays);
+  }
+  if (updates.refreshTokenExpiry !== undefined) {
+    setClauses.push('refresh_token_expiry = ?');
+    values.push(updates.refreshTokenExpiry);
+  }
+  if (updates.registrationAccessTokenHash !== undefined) {
+    setClauses.push('registration_access_token_hash = ?');
+    values.push(updates.registrationAccessTokenHash);
+  }
 
   if (setClauses.length === 0) {
     return null;
@@ -590,6 +590,48 @@ export const emailTemplates = {
     return { subject, html, text };
   },
 
+  // Refresh token reuse: a rotated token was replayed and the session was ended
+  refreshTokenReuse: (
+    recipientName: string,
+    appName: string,
+    ipAddress: string,
+    userAgent: string,
+    timestamp: string
+  ) => {
+    const firstName = recipientName.split(' ')[0];
+    const subject = 'We signed you out of a session on your Elixpo account';
+    const html = buildEmail('Session Revoked', `
+      <h1 class="title">Suspicious session activity</h1>
+      <p>Hello, ${firstName}</p>
+      <p>A sign-in token that had already been replaced was used again. This can mean the token was copied from one of your devices, so we signed that session out everywhere.</p>
+
+      <table class="info-table">
+        <tr>
+          <td>Session</td>
+          <td>${appName}</td>
+        </tr>
+        <tr>
+          <td>Time</td>
+          <td>${timestamp}</td>
+        </tr>
+        <tr>
+          <td>IP Address</td>
+          <td>${ipAddress}</td>
+        </tr>
+        <tr>
+          <td>Device</td>
+          <td>${userAgent || 'Unknown'}</td>
+        </tr>
+      </table>
+
+      <div class="notice">
+        <p>You may need to sign in again. If you don't recognise this activity, change your password and contact us at <a href="mailto:accounts@elixpo.com" style="color:#713f12;">accounts@elixpo.com</a>.</p>
+      </div>
+    `);
+    const text = `A replaced sign-in token for "${appName}" was used again, so we signed that session out.\n\nTime: ${timestamp}\nIP: ${ipAddress}\nDevice: ${userAgent}\n\nIf you don't recognise this, change your password and contact accounts@elixpo.com.`;
+    return { subject, html, text };
+  },
+
   // Admin: account suspended
   accountSuspended: (recipientName: string, reason?: string) => {
     const firstName = recipientName.split(' ')[0];
@@ -660,6 +702,18 @@ export async function sendSigninConfirmationEmail(
   await sendEmail({ to: email, subject: t.subject, html: t.html, text: t.text });
 }
 
+export async function sendRefreshTokenReuseEmail(
+  email: string,
+  recipientName: string,
+  appName: string,
+  ipAddress: string,
+  userAgent: string
+): Promise<void> {
+  const timestamp = new Date().toUTCString();
+  const t = emailTemplates.refreshTokenReuse(recipientName, appName, ipAddress, userAgent, timestamp);
+  await sendEmail({ to: email, subject: t.subject, html: t.html, text: t.text });
+}
+
 export async function sendApiKeyCreatedEmail(
   email: string,
   recipientName: string,
@@ -1,4 +1,6 @@
 import * as jose from 'jose';
+import { CLIENT_ASSERTION_ALGORITHMS, getIssuer } from './oidc';
+import { getCurrentSigningKey, getVerificationKeySet } from './signing-keys';
 
 export interface JWTPayload {
   sub: string;
@@ -8,44 +10,117 @@ export interface JWTPayload {
   iat: number;
   exp: number;
   type: 'access' | 'refresh';
+  scope?: string;
+  client_id?: string;
+  /** 'client' on client_credentials tokens, where `sub` is the client_id rather than a user id */
+  sub_type?: 'user' | 'client';
+  iss?: string;
+  aud?: string | string[];
+  /** RFC 8707 resource indicators granted with an OAuth refresh token */
+  resource?: string[];
+  /** RFC 8693 §4.1: who is acting on the subject's behalf, outermost first */
+  act?: ActorClaim;
 }
 
+export interface ActorClaim {
+  sub: string;
+  client_id?: string;
+  /** The actor before this one, when a delegated token is exchanged again */
+  act?: ActorClaim;
+}
+
+/** Set on tokens issued to OAuth clients; first-party session tokens carry none of these. */
+export interface OAuthTokenOptions {
+  scope?: string;
+  clientId?: string;
+  /**
+   * RFC 8707 resource indicators. On access tokens they are the audience
+   * (the accounts API when empty); on refresh tokens, the resources granted.
+   */
+  resources?: string[];
+  /** Token exchange (RFC 8693): the delegation chain */
+  act?: ActorClaim;
+}
+
+/**
+ * Audience of the first-party session tokens kept in our own cookies. Only
+ * this service's dashboard and account routes accept it.
+ */
+export function getSessionAudience(): string {
+  return `${getIssuer()}/session`;
+}
+
+/**
+ * Audience of access tokens issued to OAuth clients for the accounts API
+ * (userinfo, SSO verify), which is also its RFC 8707 resource identifier.
+ */
+export function getApiAudience(): string {
+  return getIssuer();
+}
 
-export async function getSigningKey(): Promise<jose.KeyLike | Uint8Array> {
-  const privateKeyPEM = process.env.JWT_PRIVATE_KEY?.replace(/\\n/g, '\n');
-  if (!privateKeyPEM) {
-    throw new Error('JWT_PRIVATE_KEY not found in environment');
+/** Audience of OAuth refresh tokens: only the token endpoint redeems them. */
+export function getTokenEndpointAudience(): string {
+  return `${getIssuer()}/api/auth/token`;
+}
+
+function normalizeAudience(uri: string): string {
+  try {
+    const url = new URL(uri);
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return uri;
   }
-  return jose.importPKCS8(privateKeyPEM, 'EdDSA');
 }
 
-export async function getVerifyingKey(): Promise<jose.KeyLike | Uint8Array> {
-  const publicKeyPEM = process.env.JWT_PUBLIC_KEY?.replace(/\\n/g, '\n');
-  if (!publicKeyPEM) {
-    throw new Error('JWT_PUBLIC_KEY not found in environment');
+/**
+ * RFC 8707 resources naming our own session or token endpoint audience would
+ * turn an OAuth access token into a session or refresh token. Returns the
+ * first such resource, or null when there is none.
+ */
+export function findReservedResource(resources: string[]): string | null {
+  const reserved = [getSessionAudience(), getTokenEndpointAudience()].map(normalizeAudience);
+  return resources.find((resource) => reserved.includes(normalizeAudience(resource))) ?? null;
+}
+
+/** Audience of an OAuth access token: its resources, or the accounts API */
+function getOAuthAudience(resources: string[]): string | string[] {
+  const reserved = findReservedResource(resources);
+  if (reserved) {
+    throw new Error(`Refusing to issue an OAuth access token for a first-party audience: ${reserved}`);
   }
-  return jose.importSPKI(publicKeyPEM, 'EdDSA');
+  return resources.length ? resources : getApiAudience();
 }
 
+/** Passed by introspection and revocation, which handle tokens for any audience. */
+export const ANY_AUDIENCE = Symbol('any audience');
+
+
 export async function createAccessToken(
   userId: string,
   email: string,
   provider?: 'google' | 'github' | 'email',
   expiresInMinutes: number = 15,
-  isAdmin: boolean = false
+  isAdmin: boolean = false,
+  { scope, clientId, resources = [], act }: OAuthTokenOptions = {}
 ): Promise<string> {
+  // isAdmin is only meaningful to our own routes, so OAuth clients never see it
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     sub: userId,
     email,
     type: 'access',
-    isAdmin,
+    ...(!clientId && { isAdmin }),
     ...(provider && { provider }),
+    ...(scope && { scope }),
+    ...(clientId && { client_id: clientId }),
+    ...(act && { act }),
   };
 
-  const key = await getSigningKey();
+  const { kid, key } = await getCurrentSigningKey();
 
   const jwt = await new jose.SignJWT(payload)
-    .setProtectedHeader({ alg: 'EdDSA' })
+    .setProtectedHeader({ alg: 'EdDSA', kid })
+    .setIssuer(getIssuer())
+    .setAudience(clientId ? getOAuthAudience(resources) : getSessionAudience())
     .setIssuedAt()
     .setExpirationTime(`${expiresInMinutes}m`)
     .sign(key);
@@ -54,36 +129,255 @@ export async function createAccessToken(
 }
 
 
+/**
+ * Access token for the client_credentials grant. The token represents the
+ * OAuth app itself: `sub` is the client_id and there is no user or email.
+ */
+export async function createClientAccessToken(
+  clientId: string,
+  scope: string,
+  expiresInMinutes: number = 15,
+  resources: string[] = []
+): Promise<string> {
+  const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
+    sub: clientId,
+    email: '',
+    type: 'access',
+    sub_type: 'client',
+    client_id: clientId,
+    ...(scope && { scope }),
+  };
+
+  const { kid, key } = await getCurrentSigningKey();
+
+  return new jose.SignJWT(payload)
+    .setProtectedHeader({ alg: 'EdDSA', kid })
+    .setIssuer(getIssuer())
+    .setAudience(getOAuthAudience(resources))
+    .setIssuedAt()
+    .setExpirationTime(`${expiresInMinutes}m`)
+    .sign(key);
+}
+
+
+/** `expiresIn` is a lifetime in days, or the expiry itself (absolute refresh expiry) */
 export async function createRefreshToken(
   userId: string,
   provider?: 'google' | 'github' | 'email',
-  expiresInDays: number = 30
+  expiresIn: number | Date = 30,
+  { scope, clientId, resources = [] }: OAuthTokenOptions = {}
 ): Promise<string> {
   const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
     sub: userId,
     email: '',
     type: 'refresh',
     ...(provider && { provider }),
+    ...(scope && { scope }),
+    ...(clientId && { client_id: clientId }),
+    ...(resources.length > 0 && { resource: resources }),
   };
 
-  const key = await getSigningKey();
+  const { kid, key } = await getCurrentSigningKey();
 
   const jwt = await new jose.SignJWT(payload)
-    .setProtectedHeader({ alg: 'EdDSA' })
+    .setProtectedHeader({ alg: 'EdDSA', kid })
+    .setIssuer(getIssuer())
+    .setAudience(clientId ? getTokenEndpointAudience() : getSessionAudience())
     .setIssuedAt()
-    .setExpirationTime(`${expiresInDays}d`)
+    .setExpirationTime(expiresIn instanceof Date ? Math.floor(expiresIn.getTime() / 1000) : `${expiresIn}d`)
     .sign(key);
 
   return jwt;
 }
 
 
-export async function verifyJWT(token: string): Promise<JWTPayload | null> {
+export interface IdTokenClaims {
+  name?: string;
+  picture?: string;
+  email?: string;
+  email_verified?: boolean;
+  locale?: string;
+  zoneinfo?: string;
+}
+
+/**
+ * OpenID Connect ID token (OIDC Core §2). Audience is the client_id;
+ * `nonce` is echoed back from the authorization request when one was sent.
+ * `sessionId` becomes the `sid` claim: the refresh token grant the ID token
+ * was issued with, which logout uses to end that session.
+ */
+export async function createIdToken({
+  issuer,
+  clientId,
+  userId,
+  authTime,
+  nonce,
+  sessionId,
+  claims = {},
+  expiresInMinutes = 15,
+}: {
+  issuer: string;
+  clientId: string;
+  userId: string;
+  authTime: number;
+  nonce?: string;
+  sessionId?: string;
+  claims?: IdTokenClaims;
+  expiresInMinutes?: number;
+}): Promise<string> {
+  const { kid, key } = await getCurrentSigningKey();
+
+  return new jose.SignJWT({
+    ...claims,
+    auth_time: authTime,
+    ...(nonce && { nonce }),
+    ...(sessionId && { sid: sessionId }),
+  })
+    .setProtectedHeader({ alg: 'EdDSA', kid, typ: 'JWT' })
+    .setIssuer(issuer)
+    .setSubject(userId)
+    .setAudience(clientId)
+    .setIssuedAt()
+    .setExpirationTime(`${expiresInMinutes}m`)
+    .sign(key);
+}
+
+export const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+
+/**
+ * OIDC Back-Channel Logout token (§2.4). Carries both `sub` and `sid` so the
+ * client can end either the one session or everything for the user.
+ */
+export async function createLogoutToken({
+  issuer,
+  clientId,
+  userId,
+  sessionId,
+}: {
+  issuer: string;
+  clientId: string;
+  userId: string;
+  sessionId?: string;
+}): Promise<string> {
+  const { kid, key } = await getCurrentSigningKey();
+
+  return new jose.SignJWT({
+    events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+    ...(sessionId && { sid: sessionId }),
+  })
+    .setProtectedHeader({ alg: 'EdDSA', kid, typ: 'logout+jwt' })
+    .setIssuer(issuer)
+    .setSubject(userId)
+    .setAudience(clientId)
+    .setIssuedAt()
+    .setJti(crypto.randomUUID())
+    .setExpirationTime('2m')
+    .sign(key);
+}
+
+/**
+ * Verify an id_token_hint (OIDC RP-Initiated Logout §2). The signature and
+ * issuer must be ours, but expired ID tokens are accepted: the hint usually
+ * outlives the token's 15 minute lifetime. Access, refresh and logout tokens
+ * share the signing key, so the token must also look like one of our ID
+ * tokens: `typ: JWT`, no `type` claim, a single audience and `auth_time`.
+ * The caller checks that the audience is a registered client.
+ */
+export async function verifyIdTokenHint(
+  idToken: string,
+  issuer: string
+): Promise<{ sub: string; aud: string; sid?: string } | null> {
+  try {
+    const keySet = await getVerificationKeySet();
+    const { payload, protectedHeader } = await jose.compactVerify(idToken, keySet, { algorithms: ['EdDSA'] });
+    const claims = JSON.parse(new TextDecoder().decode(payload));
+    if (protectedHeader.typ !== 'JWT' || claims.type !== undefined || typeof claims.auth_time !== 'number') {
+      return null;
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const aud = audiences.length === 1 ? audiences[0] : undefined;
+    if (claims.iss !== issuer || typeof claims.sub !== 'string' || typeof aud !== 'string') {
+      return null;
+    }
+    return { sub: claims.sub, aud, sid: claims.sid };
+  } catch (error) {
+    console.error('[JWT] id_token_hint verification failed:', error);
+    return null;
+  }
+}
+
+
+/** Client assertions are minted per request; a longer-lived one is a replay risk */
+const MAX_CLIENT_ASSERTION_LIFETIME_SECONDS = 5 * 60;
+
+/**
+ * Verify a private_key_jwt client assertion (RFC 7523 §3): signed with a key
+ * from the client's registered JWKS, with iss and sub both set to the client_id,
+ * a jti, and at most five minutes between issue (or now) and expiry. Returns
+ * the jti and expiry so the caller can reject a replay.
+ */
+export async function verifyClientAssertion(
+  assertion: string,
+  {
+    clientId,
+    audience,
+    jwksUri,
+    jwks,
+  }: {
+    clientId: string;
+    audience: string[];
+    jwksUri?: string | null;
+    jwks?: string | null; // JSON: a JWK Set or a single JWK
+  }
+): Promise<{ jti: string; exp: number } | null> {
+  try {
+    let keySet: jose.JWTVerifyGetKey;
+    if (jwksUri) {
+      keySet = jose.createRemoteJWKSet(new URL(jwksUri));
+    } else if (jwks) {
+      const parsed = JSON.parse(jwks);
+      keySet = jose.createLocalJWKSet(parsed.keys ? parsed : { keys: [parsed] });
+    } else {
+      return null;
+    }
+
+    const { payload } = await jose.jwtVerify(assertion, keySet, {
+      issuer: clientId,
+      subject: clientId,
+      audience,
+      algorithms: CLIENT_ASSERTION_ALGORITHMS,
+      requiredClaims: ['exp', 'jti'],
+    });
+
+    const issuedAt = Math.min(payload.iat ?? Infinity, Math.floor(Date.now() / 1000));
+    if (payload.exp! - issuedAt > MAX_CLIENT_ASSERTION_LIFETIME_SECONDS) {
+      console.error('[JWT] Client assertion lifetime exceeds the maximum');
+      return null;
+    }
+    return { jti: payload.jti!, exp: payload.exp! };
+  } catch (error) {
+    console.error('[JWT] Client assertion verification failed:', error);
+    return null;
+  }
+}
+
+
+/**
+ * Verify one of our own tokens. Callers name the audience they serve, so a
+ * session cookie can't be replayed as an API token or the other way round.
+ */
+export async function verifyJWT(
+  token: string,
+  { audience }: { audience: string | string[] | typeof ANY_AUDIENCE }
+): Promise<JWTPayload | null> {
   try {
-    const key = await getVerifyingKey();
+    const keySet = await getVerificationKeySet();
 
-    const verified = await jose.jwtVerify(token, key, {
+    const verified = await jose.jwtVerify(token, keySet, {
       algorithms: ['EdDSA'],
+      issuer: getIssuer(),
+      ...(audience !== ANY_AUDIENCE && { audience }),
     });
 
     return verified.payload as unknown as JWTPayload;
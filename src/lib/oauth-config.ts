@@ -92,20 +92,3 @@ export async function getOAuthClientFromDB(
   }
 }
 
-
-export async function validateOAuthClientCredentials(
-  db: D1Database,
-  clientId: string,
-  clientSecretHash: string
-): Promise<boolean> {
-  try {
-    const stmt = db.prepare(
-      'SELECT 1 FROM oauth_clients WHERE client_id = ? AND client_secret_hash = ? AND is_active = 1'
-    );
-    const result = await stmt.bind(clientId, clientSecretHash).first();
-    return !!result;
-  } catch (error) {
-    console.error('[OAuth] Error validating client credentials:', error);
-    return false;
-  }
-}
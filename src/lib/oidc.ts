@@ -0,0 +1,150 @@
+/**
+ * OpenID Connect provider metadata
+ * Shared by the discovery document and the endpoints it advertises
+ */
+
+import type { D1Database } from '@cloudflare/workers-types';
+import type { IdTokenClaims } from './jwt';
+import { getUserById, getIdentitiesByUserId } from './db';
+import { RESPONSE_MODES } from './authorization-response';
+
+export const SUPPORTED_SCOPES = ['openid', 'profile', 'email', 'phone', 'address'];
+
+export const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+
+/** RFC 8693 §3: the only token type accepted and issued by token exchange */
+export const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+export const SUPPORTED_GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+  'urn:ietf:params:oauth:grant-type:device_code',
+  TOKEN_EXCHANGE_GRANT_TYPE,
+];
+
+/** Algorithms accepted for private_key_jwt client assertions */
+export const CLIENT_ASSERTION_ALGORITHMS = ['RS256', 'ES256', 'EdDSA'];
+
+export const SUPPORTED_CLAIMS = [
+  'sub',
+  'iss',
+  'aud',
+  'exp',
+  'iat',
+  'auth_time',
+  'nonce',
+  'email',
+  'email_verified',
+  'name',
+  'picture',
+  'locale',
+  'zoneinfo',
+];
+
+/**
+ * Issuer identifier, the configured public URL. Every token, the discovery
+ * document and the JWKS use this one value, so it never depends on the host a
+ * request happened to arrive on.
+ */
+export function getIssuer(): string {
+  const issuer = process.env.NEXT_PUBLIC_APP_URL || 'https://accounts.elixpo.com';
+  return issuer.replace(/\/+$/, '');
+}
+
+export function getDiscoveryDocument(issuer: string) {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/oauth/authorize`,
+    token_endpoint: `${issuer}/api/auth/token`,
+    userinfo_endpoint: `${issuer}/api/auth/userinfo`,
+    end_session_endpoint: `${issuer}/oauth/logout`,
+    backchannel_logout_supported: true,
+    backchannel_logout_session_supported: true,
+    device_authorization_endpoint: `${issuer}/api/auth/device_authorization`,
+    pushed_authorization_request_endpoint: `${issuer}/api/auth/par`,
+    require_pushed_authorization_requests: false,
+    introspection_endpoint: `${issuer}/api/auth/introspect`,
+    introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'private_key_jwt'],
+    revocation_endpoint: `${issuer}/api/auth/revoke`,
+    revocation_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'private_key_jwt', 'none'],
+    registration_endpoint: `${issuer}/api/auth/register-client`,
+    jwks_uri: `${issuer}/.well-known/jwks.json`,
+    scopes_supported: SUPPORTED_SCOPES,
+    response_types_supported: ['code'],
+    response_modes_supported: RESPONSE_MODES,
+    prompt_values_supported: ['none', 'login', 'consent'],
+    grant_types_supported: SUPPORTED_GRANT_TYPES,
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['EdDSA'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'private_key_jwt', 'none'],
+    token_endpoint_auth_signing_alg_values_supported: CLIENT_ASSERTION_ALGORITHMS,
+    code_challenge_methods_supported: ['S256', 'plain'],
+    claims_supported: SUPPORTED_CLAIMS,
+  };
+}
+
+/** RFC 8707 `resource` values from a request body: one string, or several when repeated */
+export function getResourceParams(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  return [];
+}
+
+/**
+ * RFC 8707 §2: a resource must be an absolute URI without a fragment.
+ * Returns the first invalid value, or null when all are acceptable.
+ */
+export function findInvalidResource(resources: string[]): string | null {
+  for (const resource of resources) {
+    try {
+      const url = new URL(resource);
+      if (!['https:', 'http:'].includes(url.protocol) || url.hash || resource.includes('#')) return resource;
+    } catch {
+      return resource;
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a D1 CURRENT_TIMESTAMP value ("YYYY-MM-DD HH:MM:SS", UTC) to epoch seconds.
+ */
+export function toEpochSeconds(timestamp: string | null | undefined): number | null {
+  if (!timestamp) return null;
+  const iso = timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`;
+  const ms = Date.parse(iso);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+/**
+ * Standard claims for a user, gated on the granted scopes
+ * (OIDC Core §5.4: `profile` → name/picture/locale/zoneinfo, `email` → email/email_verified).
+ */
+export async function getUserClaims(
+  db: D1Database,
+  userId: string,
+  scopes: string[]
+): Promise<IdTokenClaims> {
+  const user = await getUserById(db, userId) as any;
+  if (!user) return {};
+
+  const claims: IdTokenClaims = {};
+
+  if (scopes.includes('profile')) {
+    const identities = ((await getIdentitiesByUserId(db, userId)) as any)?.results || [];
+    const picture = identities.find((i: any) => i.provider_profile_url)?.provider_profile_url;
+
+    if (user.display_name) claims.name = user.display_name;
+    if (picture) claims.picture = picture;
+    if (user.locale) claims.locale = user.locale;
+    if (user.timezone) claims.zoneinfo = user.timezone;
+  }
+
+  if (scopes.includes('email')) {
+    claims.email = user.email;
+    claims.email_verified = !!user.email_verified;
+  }
+
+  return claims;
+}
@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyJWT } from './jwt';
+import { verifyJWT, getSessionAudience } from './jwt';
 import {
   hasPermission,
   hasResourceAccess,
@@ -30,7 +30,7 @@ export async function getAuthContext(request: NextRequest): Promise<RbacContext
     return null;
   }
 
-  const decoded = await verifyJWT(token);
+  const decoded = await verifyJWT(token, { audience: getSessionAudience() });
   if (!decoded || !decoded.sub) {
     return null;
   }
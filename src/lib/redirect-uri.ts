@@ -0,0 +1,83 @@
+/**
+ * Redirect URI rules for web and native clients (RFC 8252)
+ * Web clients register HTTP(S) URIs that are matched exactly. Native apps may
+ * also use a loopback redirect (§7.3), whose port is chosen at runtime and
+ * ignored when matching, or a private-use URI scheme (§7.1) such as
+ * com.example.app:/callback.
+ */
+
+export const APPLICATION_TYPES = ['web', 'native'] as const;
+export type ApplicationType = (typeof APPLICATION_TYPES)[number];
+
+// §8.3: loopback IP literals; "localhost" is not relaxed since it may not resolve locally
+const LOOPBACK_HOSTS = ['127.0.0.1', '[::1]'];
+
+export function getApplicationType(client: any): ApplicationType {
+  return client?.application_type === 'native' ? 'native' : 'web';
+}
+
+function parseUri(uri: string): URL | null {
+  try {
+    return new URL(uri);
+  } catch {
+    return null;
+  }
+}
+
+function isLoopbackRedirect(parsed: URL): boolean {
+  return parsed.protocol === 'http:' && LOOPBACK_HOSTS.includes(parsed.hostname);
+}
+
+/** §7.1: a private-use scheme must be a reverse domain name, e.g. com.elixpo.app */
+function isPrivateUseScheme(parsed: URL): boolean {
+  const scheme = parsed.protocol.slice(0, -1);
+  return scheme.includes('.') && /^[a-z][a-z0-9+.-]*$/.test(scheme);
+}
+
+/**
+ * Why a redirect URI can't be registered for the application type, or null if
+ * it can. Fragments are never allowed (RFC 6749 §3.1.2).
+ */
+export function findRedirectUriError(uri: unknown, applicationType: ApplicationType): string | null {
+  const parsed = typeof uri === 'string' ? parseUri(uri) : null;
+  if (!parsed) {
+    return `Invalid redirect_uri: ${uri}`;
+  }
+  if (parsed.hash) {
+    return `Redirect URI must not contain a fragment: ${uri}`;
+  }
+  if (parsed.protocol === 'https:' || parsed.protocol === 'http:') {
+    return null;
+  }
+  if (applicationType === 'native' && isPrivateUseScheme(parsed)) {
+    return null;
+  }
+  return applicationType === 'native'
+    ? `Redirect URI must use HTTP(S) or a reverse-domain private-use scheme (e.g. com.example.app:/callback): ${uri}`
+    : `Redirect URI must use HTTP or HTTPS: ${uri}`;
+}
+
+/**
+ * Whether a requested redirect_uri matches one of the registered URIs. Matching
+ * is exact, except that a native client's loopback redirect matches on any port.
+ */
+export function matchesRegisteredRedirectUri(
+  registeredUris: string[],
+  requestedUri: string,
+  applicationType: ApplicationType
+): boolean {
+  if (registeredUris.includes(requestedUri)) return true;
+  if (applicationType !== 'native') return false;
+
+  const requested = parseUri(requestedUri);
+  if (!requested || !isLoopbackRedirect(requested)) return false;
+
+  return registeredUris.some((uri) => {
+    const registered = parseUri(uri);
+    return !!registered
+      && isLoopbackRedirect(registered)
+      && registered.hostname === requested.hostname
+      && registered.pathname === requested.pathname
+      && registered.search === requested.search;
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Refresh token reuse detection (OAuth 2.0 Security BCP §4.14.2)
+ * Rotated refresh tokens stay in refresh_tokens as revoked members of their
+ * family. Presenting one again means two parties hold the same token — we
+ * can't tell the legitimate one from a thief, so the whole family is revoked.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  findRefreshTokenByHash,
+  getOAuthClientById,
+  getUserById,
+  getUserNotificationPreferences,
+  logAuditEvent,
+  revokeRefreshTokenFamily,
+} from './db';
+import { sendRefreshTokenReuseEmail } from './email';
+import { generateUUID } from './webcrypto';
+
+/**
+ * Call when a refresh token is not found among the live ones. Returns true when
+ * it was an already-rotated member of a family, which is then revoked, audited
+ * and (if the user keeps security alerts on) reported by email.
+ *
+ * `lostRotation`: the token was live when read but a concurrent request
+ * claimed it first, so it is reuse even before that request stored its successor.
+ */
+export async function detectRefreshTokenReuse(
+  db: D1Database,
+  request: NextRequest,
+  tokenHash: string,
+  { lostRotation = false }: { lostRotation?: boolean } = {}
+): Promise<boolean> {
+  const record = await findRefreshTokenByHash(db, tokenHash) as any;
+  // Tokens revoked by logout or by the user were never rotated, so they aren't reuse
+  if (!record || !record.revoked || !(record.rotated || lostRotation)) return false;
+
+  const familyId: string = record.family_id || record.grant_id || record.id;
+  const revoked = await revokeRefreshTokenFamily(db, familyId);
+
+  const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+                    request.headers.get('cf-connecting-ip') || 'unknown';
+  const userAgent = request.headers.get('user-agent') || 'unknown';
+
+  console.warn(`[Refresh Token] Reuse detected for user ${record.user_id}; revoked family ${familyId}`);
+
+  try {
+    await logAuditEvent(db, {
+      id: generateUUID(),
+      userId: record.user_id,
+      eventType: 'refresh_token_reuse',
+      provider: record.client_id || undefined,
+      ipAddress,
+      userAgent,
+      status: 'failure',
+      errorMessage: `Rotated refresh token replayed; revoked family ${familyId} (${revoked.meta.changes} live tokens)`,
+    });
+  } catch (error) {
+    console.error('[Refresh Token] Failed to write audit log:', error);
+  }
+
+  // Security alert email (fire-and-forget)
+  try {
+    const prefs = await getUserNotificationPreferences(db, record.user_id) as any;
+    if (prefs?.email_security_alerts ?? true) {
+      const user = await getUserById(db, record.user_id) as any;
+      if (user?.email) {
+        const client = record.client_id ? await getOAuthClientById(db, record.client_id) as any : null;
+        const name = user.display_name || user.email.split('@')[0];
+        await sendRefreshTokenReuseEmail(user.email, name, client?.name || 'Elixpo Accounts', ipAddress, userAgent);
+      }
+    }
+  } catch (error) {
+    console.error('[Refresh Token] Failed to send reuse alert:', error);
+  }
+
+  return true;
+}
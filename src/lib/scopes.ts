@@ -0,0 +1,65 @@
+/**
+ * Scope Registry
+ * Validation shared by the scope management API and every endpoint that accepts scopes
+ */
+
+import type { D1Database } from '@cloudflare/workers-types';
+import { getActiveOAuthScopes, listUnapprovedClientScopes } from './db';
+
+export const SCOPE_SENSITIVITIES = ['low', 'medium', 'high'] as const;
+export type ScopeSensitivity = (typeof SCOPE_SENSITIVITIES)[number];
+
+/**
+ * API scopes are namespaced (`billing:read`) so they can never shadow the
+ * built-in OpenID Connect scopes, and so a namespace can have a single owner.
+ */
+const CUSTOM_SCOPE_PATTERN = /^[a-z][a-z0-9_-]{1,31}:[a-z][a-z0-9_.-]{0,63}$/;
+
+export function isValidCustomScopeName(name: string): boolean {
+  return CUSTOM_SCOPE_PATTERN.test(name);
+}
+
+export function getScopeNamespace(name: string): string {
+  return name.split(':')[0];
+}
+
+/** Scopes that are not active in the registry */
+export async function findUnknownScopes(db: D1Database, scopes: string[]): Promise<string[]> {
+  const known = new Set((await getActiveOAuthScopes(db, scopes)).map((s) => s.name));
+  return scopes.filter((s) => !known.has(s));
+}
+
+/**
+ * Requested scopes a client may not be granted: not registered on the client,
+ * or disabled in the registry since the client registered them
+ */
+export async function findUnavailableScopes(
+  db: D1Database,
+  client: { scopes?: string | null },
+  requestedScopes: string[]
+): Promise<string[]> {
+  const registeredScopes: string[] = JSON.parse(client.scopes || '[]');
+  const unregistered = requestedScopes.filter((s) => !registeredScopes.includes(s));
+  const disabled = await findUnknownScopes(db, requestedScopes.filter((s) => registeredScopes.includes(s)));
+  return [...unregistered, ...disabled];
+}
+
+/**
+ * Requested scopes a client may not carry in its own app tokens
+ * (client_credentials): as findUnavailableScopes, plus custom scopes whose
+ * owner hasn't approved the client. No user consents to these tokens, so
+ * listing another owner's scope on the client isn't enough.
+ */
+export async function findUnavailableClientScopes(
+  db: D1Database,
+  client: { client_id: string; owner_id?: string | null; scopes?: string | null },
+  requestedScopes: string[]
+): Promise<string[]> {
+  const unavailable = await findUnavailableScopes(db, client, requestedScopes);
+  const unapproved = await listUnapprovedClientScopes(
+    db,
+    { clientId: client.client_id, ownerId: client.owner_id ?? null },
+    requestedScopes.filter((s) => !unavailable.includes(s))
+  );
+  return [...unavailable, ...unapproved];
+}
@@ -0,0 +1,270 @@
+/**
+ * Signing key store
+ * Keys move next → current → retired. The next key is published in the JWKS
+ * before it signs anything, so relying parties that cache the key set already
+ * know it at rotation time; retired keys keep verifying until the tokens they
+ * signed have expired. Until the first key is promoted, JWT_PRIVATE_KEY is the current key.
+ * A store that can't be read fails closed: falling back to JWT_PRIVATE_KEY
+ * could bring back a key retired after a compromise.
+ */
+
+import * as jose from 'jose';
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  activateSigningKey,
+  createSigningKey,
+  listSigningKeys,
+  retireSigningKey,
+  revokeAllRefreshTokens,
+} from './db';
+import { getDatabase } from './d1-client';
+import { getMaxRefreshTokenTtlDays } from './token-lifetimes';
+
+export type SigningKeyStatus = 'next' | 'current' | 'retired';
+
+export interface SigningKeyInfo {
+  kid: string;
+  status: SigningKeyStatus;
+  created_at: string | null;
+  activated_at: string | null;
+  retired_at: string | null;
+  expires_at: string | null;
+}
+
+interface KeyStore {
+  current: { kid: string; privateJwk?: jose.JWK };
+  /** Public keys that verify: next, current and unexpired retired ones */
+  publicJwks: jose.JWK[];
+}
+
+// Each isolate re-reads the store at most once a minute, so a rotation
+// reaches every isolate within that window
+const CACHE_TTL_MS = 60 * 1000;
+let cachedStore: { store: KeyStore; loadedAt: number } | null = null;
+
+async function getEnvPrivateKey(): Promise<jose.KeyLike | Uint8Array> {
+  const privateKeyPEM = process.env.JWT_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (!privateKeyPEM) {
+    throw new Error('JWT_PRIVATE_KEY not found in environment');
+  }
+  return jose.importPKCS8(privateKeyPEM, 'EdDSA');
+}
+
+/** Public half of JWT_PRIVATE_KEY; the `kid` is its RFC 7638 thumbprint */
+async function getEnvPublicJWK(): Promise<jose.JWK> {
+  const publicKeyPEM = process.env.JWT_PUBLIC_KEY?.replace(/\\n/g, '\n');
+  if (!publicKeyPEM) {
+    throw new Error('JWT_PUBLIC_KEY not found in environment');
+  }
+  const jwk = await jose.exportJWK(await jose.importSPKI(publicKeyPEM, 'EdDSA', { extractable: true }));
+  const kid = await jose.calculateJwkThumbprint(jwk);
+  return { ...jwk, kid, alg: 'EdDSA', use: 'sig' };
+}
+
+// Private keys are stored AES-GCM encrypted under SIGNING_KEY_ENCRYPTION_SECRET
+async function getEncryptionKey(): Promise<CryptoKey> {
+  const secret = process.env.SIGNING_KEY_ENCRYPTION_SECRET;
+  if (!secret) {
+    throw new Error('SIGNING_KEY_ENCRYPTION_SECRET not found in environment');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+async function encryptPrivateJwk(jwk: jose.JWK): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(JSON.stringify(jwk))
+  );
+  return `${jose.base64url.encode(iv)}.${jose.base64url.encode(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptPrivateJwk(value: string): Promise<jose.JWK> {
+  const [iv, ciphertext] = value.split('.');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(jose.base64url.decode(iv)) },
+    await getEncryptionKey(),
+    new Uint8Array(jose.base64url.decode(ciphertext))
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+async function generateSigningKey(): Promise<{ kid: string; publicJwk: jose.JWK; privateJwk: jose.JWK }> {
+  const { publicKey, privateKey } = await jose.generateKeyPair('EdDSA', { crv: 'Ed25519', extractable: true });
+  const publicJwk = await jose.exportJWK(publicKey);
+  const kid = await jose.calculateJwkThumbprint(publicJwk);
+  return {
+    kid,
+    publicJwk: { ...publicJwk, kid, alg: 'EdDSA', use: 'sig' },
+    privateJwk: { ...(await jose.exportJWK(privateKey)), kid, alg: 'EdDSA' },
+  };
+}
+
+async function loadKeyStore(): Promise<KeyStore> {
+  // Errors propagate: signing fails with a 5xx and verification rejects the token
+  const rows = await listSigningKeys(await getDatabase()) as any[];
+
+  const now = Date.now();
+  const publicJwks: jose.JWK[] = rows
+    .filter((row) => row.status !== 'retired' || (row.expires_at && Date.parse(row.expires_at) > now))
+    .map((row) => JSON.parse(row.public_jwk));
+
+  const currentRow = rows.find((row) => row.status === 'current' && row.private_jwk);
+  if (currentRow) {
+    return {
+      current: { kid: currentRow.kid, privateJwk: await decryptPrivateJwk(currentRow.private_jwk) },
+      publicJwks,
+    };
+  }
+
+  // Once rotated, the environment key is retired and must not sign again
+  if (rows.some((row) => row.status !== 'next')) {
+    throw new Error('Signing key store has no current key');
+  }
+
+  // Nothing promoted yet: the environment key is current (a next key may already be published)
+  const envJwk = await getEnvPublicJWK();
+  return { current: { kid: envJwk.kid as string }, publicJwks: [envJwk, ...publicJwks] };
+}
+
+async function getKeyStore(): Promise<KeyStore> {
+  if (cachedStore && Date.now() - cachedStore.loadedAt < CACHE_TTL_MS) {
+    return cachedStore.store;
+  }
+  const store = await loadKeyStore();
+  cachedStore = { store, loadedAt: Date.now() };
+  return store;
+}
+
+/** The current key, which signs every new token */
+export async function getCurrentSigningKey(): Promise<{ kid: string; key: jose.KeyLike | Uint8Array }> {
+  const { current } = await getKeyStore();
+  const key = current.privateJwk
+    ? await jose.importJWK(current.privateJwk, 'EdDSA')
+    : await getEnvPrivateKey();
+  return { kid: current.kid, key };
+}
+
+/** Every key that may have signed a live token, plus the next key — the JWKS */
+export async function getPublicJWKs(): Promise<jose.JWK[]> {
+  const { publicJwks } = await getKeyStore();
+  return publicJwks;
+}
+
+/** Key resolver for jose: picks the verifying key by the token's `kid` */
+export async function getVerificationKeySet(): Promise<ReturnType<typeof jose.createLocalJWKSet>> {
+  return jose.createLocalJWKSet({ keys: await getPublicJWKs() });
+}
+
+export async function listSigningKeyInfo(db: D1Database): Promise<SigningKeyInfo[]> {
+  const rows = await listSigningKeys(db) as any[];
+  return rows.map((row) => ({
+    kid: row.kid,
+    status: row.status,
+    created_at: row.created_at,
+    activated_at: row.activated_at,
+    retired_at: row.retired_at,
+    expires_at: row.expires_at,
+  }));
+}
+
+/**
+ * Rotate the signing keys: current → retired, next → current, and a new next
+ * key is generated. The retired key verifies for the longest token lifetime.
+ * When no next key has been published yet (the first rotation), this only
+ * publishes one and `promoted` is false; the following rotation promotes it.
+ *
+ * A compromise rotation also drops the next key (it lived in the same store),
+ * stops both old keys verifying immediately and revokes every outstanding
+ * refresh token, so all users and clients must sign in again.
+ */
+export async function rotateSigningKeys(
+  db: D1Database,
+  { compromised = false }: { compromised?: boolean } = {}
+): Promise<{ promoted: boolean; currentKid: string; nextKid: string; retiredKids: string[]; revokedRefreshTokens: number }> {
+  // Fail before touching the store if new keys couldn't be saved
+  await getEncryptionKey();
+
+  const rows = await listSigningKeys(db) as any[];
+  const currentRow = rows.find((row) => row.status === 'current');
+  const nextRow = rows.find((row) => row.status === 'next');
+
+  // A key must be in cached JWKS before it signs, so one that was never published isn't promoted
+  if (!nextRow && !compromised) {
+    const next = await generateSigningKey();
+    await createSigningKey(db, {
+      kid: next.kid,
+      publicJwk: JSON.stringify(next.publicJwk),
+      privateJwk: await encryptPrivateJwk(next.privateJwk),
+      status: 'next',
+    });
+    cachedStore = null;
+    const currentKid = currentRow ? currentRow.kid : (await getEnvPublicJWK()).kid as string;
+    console.log(`[Signing Keys] Published next key ${next.kid}; current ${currentKid} keeps signing`);
+    return { promoted: false, currentKid, nextKid: next.kid, retiredKids: [], revokedRefreshTokens: 0 };
+  }
+
+  // Clients can set their own refresh lifetimes, so cover the longest one allowed
+  const refreshDays = getMaxRefreshTokenTtlDays();
+  const retiredExpiresAt = compromised ? new Date() : new Date(Date.now() + refreshDays * 24 * 60 * 60 * 1000);
+  const retiredKids: string[] = [];
+
+  if (currentRow) {
+    await retireSigningKey(db, currentRow.kid, retiredExpiresAt);
+    retiredKids.push(currentRow.kid);
+  } else {
+    // First rotation: keep the environment key's public half so its tokens still verify
+    const envJwk = await getEnvPublicJWK();
+    if (!rows.some((row) => row.kid === envJwk.kid)) {
+      await createSigningKey(db, {
+        kid: envJwk.kid as string,
+        publicJwk: JSON.stringify(envJwk),
+        privateJwk: null,
+        status: 'retired',
+        retiredAt: new Date(),
+        expiresAt: retiredExpiresAt,
+      });
+      retiredKids.push(envJwk.kid as string);
+    }
+  }
+
+  let currentKid: string;
+  if (nextRow && !compromised) {
+    await activateSigningKey(db, nextRow.kid);
+    currentKid = nextRow.kid;
+  } else {
+    if (nextRow) {
+      await retireSigningKey(db, nextRow.kid, new Date());
+      retiredKids.push(nextRow.kid);
+    }
+    const current = await generateSigningKey();
+    await createSigningKey(db, {
+      kid: current.kid,
+      publicJwk: JSON.stringify(current.publicJwk),
+      privateJwk: await encryptPrivateJwk(current.privateJwk),
+      status: 'current',
+    });
+    currentKid = current.kid;
+  }
+
+  const next = await generateSigningKey();
+  await createSigningKey(db, {
+    kid: next.kid,
+    publicJwk: JSON.stringify(next.publicJwk),
+    privateJwk: await encryptPrivateJwk(next.privateJwk),
+    status: 'next',
+  });
+
+  let revokedRefreshTokens = 0;
+  if (compromised) {
+    const result = await revokeAllRefreshTokens(db);
+    revokedRefreshTokens = result.meta.changes ?? 0;
+  }
+
+  cachedStore = null;
+  console.log(`[Signing Keys] Rotated${compromised ? ' (compromise)' : ''}: current ${currentKid}, next ${next.kid}`);
+
+  return { promoted: true, currentKid, nextKid: next.kid, retiredKids, revokedRefreshTokens };
+}
@@ -0,0 +1,89 @@
+/**
+ * Per-client token lifetimes and grant types
+ * Clients without their own settings use JWT_EXPIRATION_MINUTES and
+ * REFRESH_TOKEN_EXPIRATION_DAYS and may use every supported grant type.
+ */
+
+import { SUPPORTED_GRANT_TYPES, TOKEN_EXCHANGE_GRANT_TYPE } from './oidc';
+
+export const REFRESH_TOKEN_EXPIRY_MODES = ['sliding', 'absolute'] as const;
+export type RefreshTokenExpiryMode = (typeof REFRESH_TOKEN_EXPIRY_MODES)[number];
+
+export const MAX_ACCESS_TOKEN_TTL_MINUTES = 24 * 60;
+export const MAX_REFRESH_TOKEN_TTL_DAYS = 365;
+
+/** Grants where the client acts for itself or on a user's behalf, so it must authenticate */
+const CONFIDENTIAL_GRANT_TYPES = ['client_credentials', TOKEN_EXCHANGE_GRANT_TYPE];
+
+export function getAccessTokenTtlMinutes(client: any): number {
+  return client?.access_token_ttl_minutes || parseInt(process.env.JWT_EXPIRATION_MINUTES || '15');
+}
+
+export function getRefreshTokenTtlDays(client: any): number {
+  return client?.refresh_token_ttl_days || parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS || '30');
+}
+
+/** The longest refresh token lifetime any client can have; retired signing keys verify this long */
+export function getMaxRefreshTokenTtlDays(): number {
+  return Math.max(MAX_REFRESH_TOKEN_TTL_DAYS, parseInt(process.env.REFRESH_TOKEN_EXPIRATION_DAYS || '30'));
+}
+
+/**
+ * sliding: every rotated refresh token gets a full lifetime, so an app in use
+ * stays signed in. absolute: rotations keep the first token's expiry, so the
+ * user signs in again when it passes.
+ */
+export function getRefreshTokenExpiryMode(client: any): RefreshTokenExpiryMode {
+  return client?.refresh_token_expiry === 'absolute' ? 'absolute' : 'sliding';
+}
+
+/** Clients that never chose grant types (grant_types NULL) may use all of them */
+export function isGrantTypeAllowed(client: any, grantType: string): boolean {
+  if (!client?.grant_types) return true;
+  return (JSON.parse(client.grant_types) as string[]).includes(grantType);
+}
+
+/**
+ * Why the token settings can't be saved for the client, or null if they can.
+ * null values reset a setting to the default.
+ */
+export function findTokenSettingsError(
+  {
+    access_token_ttl_minutes,
+    refresh_token_ttl_days,
+    refresh_token_expiry,
+    grant_types,
+  }: {
+    access_token_ttl_minutes?: unknown;
+    refresh_token_ttl_days?: unknown;
+    refresh_token_expiry?: unknown;
+    grant_types?: unknown;
+  },
+  isPublic: boolean
+): string | null {
+  if (access_token_ttl_minutes != null
+    && !(Number.isInteger(access_token_ttl_minutes) && (access_token_ttl_minutes as number) >= 1 && (access_token_ttl_minutes as number) <= MAX_ACCESS_TOKEN_TTL_MINUTES)) {
+    return `access_token_ttl_minutes must be a whole number between 1 and ${MAX_ACCESS_TOKEN_TTL_MINUTES}`;
+  }
+  if (refresh_token_ttl_days != null
+    && !(Number.isInteger(refresh_token_ttl_days) && (refresh_token_ttl_days as number) >= 1 && (refresh_token_ttl_days as number) <= MAX_REFRESH_TOKEN_TTL_DAYS)) {
+    return `refresh_token_ttl_days must be a whole number between 1 and ${MAX_REFRESH_TOKEN_TTL_DAYS}`;
+  }
+  if (refresh_token_expiry !== undefined && !REFRESH_TOKEN_EXPIRY_MODES.includes(refresh_token_expiry as RefreshTokenExpiryMode)) {
+    return 'refresh_token_expiry must be "sliding" or "absolute"';
+  }
+  if (grant_types != null) {
+    if (!Array.isArray(grant_types) || grant_types.length === 0) {
+      return 'grant_types must be a non-empty array';
+    }
+    const unsupported = grant_types.filter((g) => !SUPPORTED_GRANT_TYPES.includes(g));
+    if (unsupported.length > 0) {
+      return `Unsupported grant_types: ${unsupported.join(', ')}`;
+    }
+    const confidentialOnly = grant_types.filter((g) => CONFIDENTIAL_GRANT_TYPES.includes(g));
+    if (isPublic && confidentialOnly.length > 0) {
+      return `Public clients cannot use: ${confidentialOnly.join(', ')}`;
+    }
+  }
+  return null;
+}
@@ -3,16 +3,53 @@ export function generateRandomString(length: number = 32): string {
   return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('').slice(0, length * 2);
 }
 
-export async function generatePKCE(): Promise<{ verifier: string; challenge: string }> {
-  const verifier = generateRandomString(32);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
-  const challenge = btoa(String.fromCharCode(...new Uint8Array(hashBuffer)))
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
     .replace(/\+/g, '-')
     .replace(/\//g, '_')
     .replace(/=/g, '');
+}
+
+async function computeS256Challenge(verifier: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(hashBuffer));
+}
+
+export async function generatePKCE(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = generateRandomString(32);
+  const challenge = await computeS256Challenge(verifier);
   return { verifier, challenge };
 }
 
+// RFC 7636 §4.1: 43-128 characters from the unreserved set
+const PKCE_VALUE_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+export function isValidPKCEValue(value: string): boolean {
+  return PKCE_VALUE_PATTERN.test(value);
+}
+
+/**
+ * Check a code_verifier against the code_challenge stored at /oauth/authorize (RFC 7636 §4.6)
+ */
+export async function verifyPKCE(
+  verifier: string,
+  challenge: string,
+  method: 'S256' | 'plain'
+): Promise<boolean> {
+  if (!isValidPKCEValue(verifier)) return false;
+  const computed = method === 'S256' ? await computeS256Challenge(verifier) : verifier;
+  return timingSafeEqual(computed, challenge);
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
 export async function hashString(input: string): Promise<string> {
   const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
   return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
@@ -26,6 +63,22 @@ export function generateNonce(): string {
   return generateRandomString(16);
 }
 
+// RFC 8628 §6.1: no vowels (avoids spelling words) and no easily confused characters
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+
+/** Short, human-typeable device flow code, formatted as XXXX-XXXX */
+export function generateUserCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const chars = Array.from(bytes).map(b => USER_CODE_ALPHABET[b % USER_CODE_ALPHABET.length]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+/** Normalise typed user codes: case-insensitive, dashes and spaces optional */
+export function normalizeUserCode(input: string): string {
+  const chars = input.toUpperCase().replace(/[^A-Z]/g, '');
+  return chars.length === 8 ? `${chars.slice(0, 4)}-${chars.slice(4)}` : chars;
+}
+
 export function generateUUID(): string {
   return crypto.randomUUID();
 }
@@ -0,0 +1,3 @@
+-- Migration 0010: Record when the user authenticated for each approved auth request (OIDC auth_time)
+
+ALTER TABLE auth_requests ADD COLUMN auth_time INTEGER;
@@ -0,0 +1,6 @@
+-- Migration 0011: PKCE code challenges on auth requests and public (secret-less) OAuth clients
+
+ALTER TABLE auth_requests ADD COLUMN code_challenge TEXT;
+ALTER TABLE auth_requests ADD COLUMN code_challenge_method TEXT;
+
+ALTER TABLE oauth_clients ADD COLUMN is_public BOOLEAN DEFAULT 0;
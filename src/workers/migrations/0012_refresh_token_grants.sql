@@ -0,0 +1,6 @@
+-- Migration 0012: Group refresh tokens by the grant they were issued from,
+-- so revoking one token can revoke every rotation of the same grant (RFC 7009 §2.1)
+
+ALTER TABLE refresh_tokens ADD COLUMN grant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_grant_id ON refresh_tokens(grant_id);
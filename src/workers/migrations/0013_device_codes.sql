@@ -0,0 +1,23 @@
+-- Migration 0013: Device authorization grant (RFC 8628)
+-- status: pending → approved | denied; last_polled_at drives slow_down
+
+CREATE TABLE IF NOT EXISTS device_codes (
+  id TEXT PRIMARY KEY,
+  device_code TEXT UNIQUE NOT NULL,
+  user_code TEXT UNIQUE NOT NULL,
+  client_id TEXT NOT NULL,
+  scopes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  user_id TEXT,
+  auth_time INTEGER,
+  poll_interval INTEGER NOT NULL DEFAULT 5,
+  last_polled_at DATETIME,
+  used BOOLEAN DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_codes_user_code ON device_codes(user_code);
+CREATE INDEX IF NOT EXISTS idx_device_codes_expires ON device_codes(expires_at);
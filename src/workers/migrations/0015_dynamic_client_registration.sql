@@ -0,0 +1,8 @@
+-- Migration 0015: Dynamic client registration (RFC 7591/7592)
+-- grant_types: JSON array of grant types the client registered for
+-- token_endpoint_auth_method: how the client authenticates at the token endpoint (RFC 7591 §2)
+-- registration_access_token_hash: SHA-256 of the token used at the RFC 7592 management endpoint
+
+ALTER TABLE oauth_clients ADD COLUMN grant_types TEXT;
+ALTER TABLE oauth_clients ADD COLUMN token_endpoint_auth_method TEXT;
+ALTER TABLE oauth_clients ADD COLUMN registration_access_token_hash TEXT;
@@ -0,0 +1,5 @@
+-- Migration 0016: Keys for private_key_jwt client authentication (RFC 7523)
+-- jwks_uri: URL of the client's JWK Set; jwks: inline JWK Set or single JWK (JSON)
+
+ALTER TABLE oauth_clients ADD COLUMN jwks_uri TEXT;
+ALTER TABLE oauth_clients ADD COLUMN jwks TEXT;
@@ -0,0 +1,4 @@
+-- Migration 0017: RP-initiated logout (OpenID Connect RP-Initiated Logout 1.0)
+-- post_logout_redirect_uris: JSON array of URIs the end_session endpoint may redirect to
+
+ALTER TABLE oauth_clients ADD COLUMN post_logout_redirect_uris TEXT;
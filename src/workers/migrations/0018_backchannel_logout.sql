@@ -0,0 +1,22 @@
+-- Migration 0018: OIDC Back-Channel Logout 1.0
+-- backchannel_logout_uri: where the client receives logout tokens
+-- backchannel_logout_deliveries: one row per logout token sent, updated on each attempt
+
+ALTER TABLE oauth_clients ADD COLUMN backchannel_logout_uri TEXT;
+
+CREATE TABLE IF NOT EXISTS backchannel_logout_deliveries (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  sid TEXT,
+  logout_uri TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending | delivered | failed
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  status_code INTEGER,
+  error_message TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_backchannel_logout_deliveries_client ON backchannel_logout_deliveries(client_id, created_at);
@@ -0,0 +1,24 @@
+-- Migration 0019: Scope registry
+-- Built-in OpenID Connect scopes have no owner; custom API scopes (e.g. billing:read)
+-- are owned by the user who defined them, and their namespace prefix belongs to that user
+-- sensitivity: low | medium | high — shown on the consent screen
+
+CREATE TABLE IF NOT EXISTS oauth_scopes (
+  name TEXT PRIMARY KEY,
+  description TEXT NOT NULL,
+  sensitivity TEXT NOT NULL DEFAULT 'low',
+  owner_id TEXT,
+  is_active BOOLEAN DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_scopes_owner ON oauth_scopes(owner_id);
+
+INSERT OR IGNORE INTO oauth_scopes (name, description, sensitivity) VALUES
+  ('openid', 'Sign you in with your Elixpo account', 'low'),
+  ('profile', 'Your name, profile picture and locale', 'low'),
+  ('email', 'Your email address', 'medium'),
+  ('phone', 'Your phone number', 'medium'),
+  ('address', 'Your postal address', 'high');
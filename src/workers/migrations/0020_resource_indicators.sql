@@ -0,0 +1,5 @@
+-- Migration 0020: Resource indicators (RFC 8707)
+-- resources: JSON array of resource URIs named in the authorization request;
+-- tokens redeemed from the code may only be issued for these audiences
+
+ALTER TABLE auth_requests ADD COLUMN resources TEXT;
@@ -0,0 +1,13 @@
+-- Migration 0021: Refresh token families (reuse detection)
+-- family_id: every rotation of a refresh token shares the family of the token
+--            first issued at sign-in / code exchange
+-- parent_id: the refresh_tokens row this token was rotated from
+-- Presenting an already-rotated member revokes the whole family
+
+ALTER TABLE refresh_tokens ADD COLUMN family_id TEXT;
+ALTER TABLE refresh_tokens ADD COLUMN parent_id TEXT;
+
+UPDATE refresh_tokens SET family_id = COALESCE(grant_id, id) WHERE family_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_parent_id ON refresh_tokens(parent_id);
@@ -0,0 +1,19 @@
+-- Migration 0022: Signing key store
+-- status: next (published in JWKS, not yet signing) | current (signs new tokens) | retired (verify only)
+-- private_jwk: AES-GCM encrypted with SIGNING_KEY_ENCRYPTION_SECRET; NULL once a key is retired
+-- expires_at: when a retired key stops verifying (the longest token lifetime after retirement,
+--             or immediately after a compromise rotation)
+
+CREATE TABLE IF NOT EXISTS signing_keys (
+  kid TEXT PRIMARY KEY,
+  alg TEXT NOT NULL DEFAULT 'EdDSA',
+  public_jwk TEXT NOT NULL,
+  private_jwk TEXT,
+  status TEXT NOT NULL DEFAULT 'next',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  activated_at DATETIME,
+  retired_at DATETIME,
+  expires_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_signing_keys_status ON signing_keys(status);
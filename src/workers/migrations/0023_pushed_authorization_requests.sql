@@ -0,0 +1,18 @@
+-- Migration 0023: Pushed Authorization Requests (RFC 9126)
+-- params: the pushed authorization parameters as a query string; /oauth/authorize
+--         uses only these when it is given the request_uri
+-- require_pushed_authorization_requests: the client may only start authorization via PAR
+
+CREATE TABLE IF NOT EXISTS pushed_authorization_requests (
+  request_uri TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  params TEXT NOT NULL,
+  used BOOLEAN DEFAULT 0,
+  expires_at DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_par_expires ON pushed_authorization_requests(expires_at);
+
+ALTER TABLE oauth_clients ADD COLUMN require_pushed_authorization_requests BOOLEAN DEFAULT 0;
@@ -0,0 +1,27 @@
+-- Migration 0024: Client secrets with rotation
+-- A client may hold two active secrets, so the old one keeps working until an
+-- app's deploy has cut over to the new one.
+-- secret_hash: HMAC-SHA256 keyed with CLIENT_SECRET_HASH_KEY over salt + secret
+-- salt:        NULL for secrets carried over from oauth_clients.client_secret_hash
+--              (unsalted SHA-256); they are rehashed the next time they are used
+-- expires_at:  when the secret stops authenticating; NULL = until retired
+
+CREATE TABLE IF NOT EXISTS oauth_client_secrets (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  secret_hash TEXT NOT NULL,
+  salt TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME,
+  last_used_at DATETIME,
+  FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_client_secrets_client ON oauth_client_secrets(client_id);
+
+INSERT INTO oauth_client_secrets (id, client_id, secret_hash, salt, created_at)
+SELECT lower(hex(randomblob(16))), client_id, client_secret_hash, NULL, created_at
+FROM oauth_clients
+WHERE client_secret_hash IS NOT NULL AND client_secret_hash != '';
+
+UPDATE oauth_clients SET client_secret_hash = '';
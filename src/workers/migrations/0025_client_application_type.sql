@@ -0,0 +1,5 @@
+-- Migration 0025: Web and native clients (RFC 8252)
+-- application_type: web (exact HTTP(S) redirect URIs) | native (also loopback
+--                   redirects on any port and private-use URI schemes)
+
+ALTER TABLE oauth_clients ADD COLUMN application_type TEXT DEFAULT 'web';
@@ -0,0 +1,8 @@
+-- Migration 0026: Link refresh tokens to the authorization code that produced them
+-- auth_request_id: set on the first token of a grant issued for an authorization
+--                  code; rotated tokens share its family_id. When a used code is
+--                  redeemed again, every family issued from it is revoked (RFC 6749 §4.1.2).
+
+ALTER TABLE refresh_tokens ADD COLUMN auth_request_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_auth_request ON refresh_tokens(auth_request_id);
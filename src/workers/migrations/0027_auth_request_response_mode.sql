@@ -0,0 +1,5 @@
+-- Migration 0027: Authorization response mode
+-- response_mode: query (default) | fragment | form_post — how the code or error
+--                is returned to the client's redirect_uri
+
+ALTER TABLE auth_requests ADD COLUMN response_mode TEXT DEFAULT 'query';
@@ -0,0 +1,9 @@
+-- Migration 0028: Token exchange (RFC 8693)
+-- token_exchange_audiences: JSON array of audiences/resources the client may
+--                           exchange user tokens for; set by admins only
+-- audit_logs.details:       JSON context for an event, e.g. the delegation
+--                           chain (act claim) of an exchanged token
+
+ALTER TABLE oauth_clients ADD COLUMN token_exchange_audiences TEXT;
+
+ALTER TABLE audit_logs ADD COLUMN details TEXT;
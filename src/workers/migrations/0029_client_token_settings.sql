@@ -0,0 +1,12 @@
+-- Migration 0029: Per-client token lifetimes
+-- access_token_ttl_minutes: access (and ID) token lifetime; NULL uses JWT_EXPIRATION_MINUTES
+-- refresh_token_ttl_days:   refresh token lifetime; NULL uses REFRESH_TOKEN_EXPIRATION_DAYS
+-- refresh_token_expiry:     sliding (default) — each rotation gets a full lifetime |
+--                           absolute — rotations keep the first token's expiry
+-- Allowed grant types reuse the existing grant_types column (NULL allows all)
+
+ALTER TABLE oauth_clients ADD COLUMN access_token_ttl_minutes INTEGER;
+
+ALTER TABLE oauth_clients ADD COLUMN refresh_token_ttl_days INTEGER;
+
+ALTER TABLE oauth_clients ADD COLUMN refresh_token_expiry TEXT DEFAULT 'sliding';
@@ -0,0 +1,5 @@
+-- Migration 0030: Resources in remembered consent grants
+-- resources: JSON array, the union of every RFC 8707 resource the user approved
+--            for the client; a request naming any other resource shows consent again
+
+ALTER TABLE oauth_consents ADD COLUMN resources TEXT;
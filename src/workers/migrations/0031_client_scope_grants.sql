@@ -0,0 +1,16 @@
+-- Migration 0031: Scope owner approval of clients
+-- A client may only carry a custom API scope in its own app tokens
+-- (client_credentials, where no user consents) once the scope's owner approved it.
+-- Clients belonging to the scope's owner need no approval.
+
+CREATE TABLE IF NOT EXISTS oauth_client_scope_grants (
+  scope TEXT NOT NULL,
+  client_id TEXT NOT NULL,
+  approved_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (scope, client_id),
+  FOREIGN KEY (scope) REFERENCES oauth_scopes(name) ON DELETE CASCADE,
+  FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_client_scope_grants_client ON oauth_client_scope_grants(client_id);
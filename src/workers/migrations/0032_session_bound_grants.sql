@@ -0,0 +1,13 @@
+-- Migration 0032: OAuth grants bound to the accounts session they were approved in
+-- session_id: family_id of the accounts.elixpo refresh tokens (the sign-in) that
+--             was active when the user approved the grant. Signing out of that
+--             session ends these grants and notifies their clients, and leaves
+--             the user's other sessions alone.
+
+ALTER TABLE auth_requests ADD COLUMN session_id TEXT;
+
+ALTER TABLE device_codes ADD COLUMN session_id TEXT;
+
+ALTER TABLE refresh_tokens ADD COLUMN session_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
@@ -0,0 +1,7 @@
+-- Migration 0033: Token exchange subject binding (RFC 8693)
+-- token_exchange_resources: JSON array of resource URIs the client serves; user
+--                           tokens addressed to one of them (or issued to the
+--                           client) are the only ones it may exchange; set by
+--                           admins only
+
+ALTER TABLE oauth_clients ADD COLUMN token_exchange_resources TEXT;
@@ -0,0 +1,7 @@
+-- Migration 0034: Authentication time of an accounts session
+-- auth_time: epoch seconds of the sign-in that started the refresh token
+--            family; rotations carry it forward. OIDC max_age, prompt=login and
+--            the ID token's auth_time use it instead of users.last_login, which
+--            a sign-in on any other device also moves.
+
+ALTER TABLE refresh_tokens ADD COLUMN auth_time INTEGER;
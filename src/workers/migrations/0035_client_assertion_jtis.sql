@@ -0,0 +1,14 @@
+-- Migration 0035: private_key_jwt replay protection (RFC 7523 §3)
+-- Each client assertion's jti is kept until the assertion expires; presenting
+-- the same jti again is rejected as a replay.
+
+CREATE TABLE IF NOT EXISTS client_assertion_jtis (
+  client_id TEXT NOT NULL,
+  jti TEXT NOT NULL,
+  expires_at DATETIME NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (client_id, jti),
+  FOREIGN KEY (client_id) REFERENCES oauth_clients(client_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_assertion_jtis_expires ON client_assertion_jtis(expires_at);